@@ -0,0 +1,123 @@
+/// <reference types="vite/client" />
+/**
+ * @fileoverview Recording export formats: native WAV, and FLAC, Ogg/Opus and
+ * MP3 through a locally bundled ffmpeg.wasm core.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {FFmpeg} from '@ffmpeg/ffmpeg';
+import ffmpegCoreUrl from '@ffmpeg/core?url';
+import ffmpegWasmUrl from '@ffmpeg/core/wasm?url';
+import type {RecordedAudio} from './pcmRecorder';
+import {metadataTags, type TakeMetadata, wavInfo} from './takeMetadata';
+import {encodeWav, type WavSampleFormat} from './wavEncoder';
+
+export type ExportFormat = 'wav' | 'flac' | 'ogg-opus' | 'mp3';
+
+interface FormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, FormatInfo> = {
+  wav: {label: 'WAV', extension: 'wav', mimeType: 'audio/wav'},
+  flac: {label: 'FLAC', extension: 'flac', mimeType: 'audio/flac'},
+  'ogg-opus': {label: 'Ogg/Opus', extension: 'ogg', mimeType: 'audio/ogg'},
+  mp3: {label: 'MP3', extension: 'mp3', mimeType: 'audio/mpeg'},
+};
+
+/** Bitrates offered for the lossy formats, in kbps. */
+export const MP3_BITRATES = [128, 192, 256, 320];
+export const OPUS_BITRATES = [64, 96, 128, 192, 256];
+/** FLAC compression levels: 0 is fastest, 12 smallest. */
+export const FLAC_COMPRESSION_LEVELS = [0, 5, 8, 12];
+
+export interface ExportSettings {
+  format: ExportFormat;
+  wavSampleFormat: WavSampleFormat;
+  mp3Bitrate: number;
+  opusBitrate: number;
+  flacCompression: number;
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'wav',
+  wavSampleFormat: 'pcm16',
+  mp3Bitrate: 192,
+  opusBitrate: 128,
+  flacCompression: 5,
+};
+
+/** Loads ffmpeg.wasm from the core files bundled with the app. */
+export async function loadFfmpeg(): Promise<FFmpeg> {
+  const ffmpeg = new FFmpeg();
+  ffmpeg.on('log', ({message}) => console.log(`FFmpeg: ${message}`));
+  await ffmpeg.load({coreURL: ffmpegCoreUrl, wasmURL: ffmpegWasmUrl});
+  return ffmpeg;
+}
+
+function codecArgs(settings: ExportSettings): string[] {
+  switch (settings.format) {
+    case 'flac':
+      return ['-c:a', 'flac', '-compression_level', String(settings.flacCompression)];
+    case 'ogg-opus':
+      return ['-c:a', 'libopus', '-b:a', `${settings.opusBitrate}k`];
+    case 'mp3':
+      return ['-c:a', 'libmp3lame', '-b:a', `${settings.mp3Bitrate}k`];
+    case 'wav':
+      return [];
+  }
+}
+
+/**
+ * Arguments that encode the WAV `input` into `output` for `settings`, tagged
+ * with `tags`.
+ */
+export function ffmpegArgs(
+  settings: ExportSettings,
+  input: string,
+  output: string,
+  tags: Record<string, string> = {},
+): string[] {
+  const metadata = Object.entries(tags).flatMap(([key, value]) => ['-metadata', `${key}=${value}`]);
+  return ['-i', input, ...codecArgs(settings), ...metadata, output];
+}
+
+/**
+ * Encodes captured PCM, tagged with `metadata` when given. WAV is written
+ * directly; the other formats go through ffmpeg, which is only requested
+ * when needed.
+ */
+export async function encodeAudio(
+  audio: RecordedAudio,
+  settings: ExportSettings,
+  getFfmpeg: () => Promise<FFmpeg>,
+  metadata?: TakeMetadata,
+): Promise<Blob> {
+  const {extension, mimeType} = EXPORT_FORMATS[settings.format];
+  if (settings.format === 'wav') {
+    const info = metadata ? wavInfo(metadata) : {};
+    const wav = encodeWav(audio.channels, audio.sampleRate, settings.wavSampleFormat, info);
+    return new Blob([wav], {type: mimeType});
+  }
+  const ffmpeg = await getFfmpeg();
+  const input = 'input.wav';
+  const output = `output.${extension}`;
+  // FLAC is integer-only, so give it 24-bit; the lossy encoders take float.
+  const intermediate: WavSampleFormat = settings.format === 'flac' ? 'pcm24' : 'float32';
+  await ffmpeg.writeFile(input, encodeWav(audio.channels, audio.sampleRate, intermediate));
+  try {
+    const tags = metadata ? metadataTags(metadata) : {};
+    const exitCode = await ffmpeg.exec(ffmpegArgs(settings, input, output, tags));
+    if (exitCode !== 0) {
+      throw new Error(`ffmpeg exited with code ${exitCode}`);
+    }
+    const data = (await ffmpeg.readFile(output)) as Uint8Array;
+    return new Blob([data], {type: mimeType});
+  } finally {
+    await ffmpeg.deleteFile(input).catch(() => {});
+    await ffmpeg.deleteFile(output).catch(() => {});
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {css, html, LitElement, type PropertyValues} from 'lit';
+import {customElement, property, query} from 'lit/decorators.js';
+import {map} from 'lit/directives/map.js';
+
+export type VisualizerMode = 'spectrum' | 'waveform' | 'spectrogram';
+
+export interface VisualizerSettings {
+  mode: VisualizerMode;
+  /** Frames per second to draw at most. */
+  fps: number;
+}
+
+const MODE_LABELS: Record<VisualizerMode, string> = {
+  spectrum: 'Spectrum',
+  waveform: 'Waveform',
+  spectrogram: 'Spectrogram',
+};
+
+const FRAME_RATES = [60, 30, 15, 5];
+const SPECTRUM_BANDS = 64;
+// Lowest frequency shown; bands are spaced logarithmically above it.
+const MIN_FREQUENCY = 30;
+// Pixels the scrolling modes advance per frame.
+const SCROLL_STEP = 2;
+
+// AudioVisualizer component
+// -----------------------------------------------------------------------------
+/**
+ * Draws what an `AnalyserNode` hears as a spectrum, a scrolling waveform or
+ * a spectrogram, tinted with `color`. The scrolling modes keep the color
+ * each moment was drawn with, so earlier prompts stay visible in the
+ * history. The host owns the mode and frame rate (`visualizer-change`).
+ */
+@customElement('audio-visualizer')
+export class AudioVisualizer extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      position: relative;
+      height: 120px;
+      border-radius: 6px;
+      background-color: #0009;
+      overflow: hidden;
+    }
+    canvas {
+      width: 100%;
+      height: 100%;
+      display: block;
+    }
+    .toolbar {
+      position: absolute;
+      top: 6px;
+      right: 6px;
+      display: flex;
+      gap: 4px;
+    }
+    button,
+    select {
+      padding: 2px 8px;
+      border: 1px solid #555;
+      border-radius: 10px;
+      background-color: #3a3a3acc;
+      color: #e0e0e0;
+      font-size: 1.3vmin;
+      cursor: pointer;
+    }
+    button.active {
+      background-color: #e0e0e0;
+      color: #111;
+    }
+  `;
+
+  @property({attribute: false}) analyser: AnalyserNode | null = null;
+  @property({type: String}) mode: VisualizerMode = 'spectrum';
+  /** Frames per second to draw at most. */
+  @property({type: Number}) fps = 30;
+  /** Color of the prompt that dominates right now. */
+  @property({type: String}) color = '#2af6de';
+
+  @query('canvas') private canvas!: HTMLCanvasElement;
+
+  private frame = 0;
+  private lastDraw = 0;
+  private frequencyData = new Uint8Array(0);
+  private timeData = new Uint8Array(0);
+  private resizeObserver: ResizeObserver | null = null;
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.frame = requestAnimationFrame(this.draw);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    cancelAnimationFrame(this.frame);
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
+  }
+
+  override firstUpdated() {
+    this.resizeObserver = new ResizeObserver(() => this.resize());
+    this.resizeObserver.observe(this.canvas);
+    this.resize();
+  }
+
+  override updated(changed: PropertyValues<this>) {
+    if (changed.has('mode')) {
+      this.clear();
+    }
+  }
+
+  private change(changes: Partial<VisualizerSettings>) {
+    this.dispatchEvent(
+      new CustomEvent<VisualizerSettings>('visualizer-change', {
+        detail: {mode: this.mode, fps: this.fps, ...changes},
+      }),
+    );
+  }
+
+  private resize() {
+    const ratio = window.devicePixelRatio || 1;
+    this.canvas.width = Math.max(1, Math.round(this.canvas.clientWidth * ratio));
+    this.canvas.height = Math.max(1, Math.round(this.canvas.clientHeight * ratio));
+  }
+
+  private clear() {
+    const context = this.canvas?.getContext('2d');
+    context?.clearRect(0, 0, this.canvas.width, this.canvas.height);
+  }
+
+  private draw = (time: number) => {
+    this.frame = requestAnimationFrame(this.draw);
+    if (!this.analyser || !this.canvas || time - this.lastDraw < 1000 / this.fps) {
+      return;
+    }
+    this.lastDraw = time;
+    const context = this.canvas.getContext('2d');
+    if (!context) return;
+    if (this.frequencyData.length !== this.analyser.frequencyBinCount) {
+      this.frequencyData = new Uint8Array(this.analyser.frequencyBinCount);
+      this.timeData = new Uint8Array(this.analyser.fftSize);
+    }
+    switch (this.mode) {
+      case 'spectrum':
+        this.drawSpectrum(context);
+        break;
+      case 'waveform':
+        this.drawWaveform(context);
+        break;
+      case 'spectrogram':
+        this.drawSpectrogram(context);
+        break;
+    }
+  };
+
+  /** The bin at a position from 0 to 1 along a logarithmic frequency axis. */
+  private binAt(position: number): number {
+    const analyser = this.analyser!;
+    const nyquist = analyser.context.sampleRate / 2;
+    const frequency = MIN_FREQUENCY * Math.pow(nyquist / MIN_FREQUENCY, position);
+    return Math.min(analyser.frequencyBinCount - 1, Math.round((frequency / nyquist) * analyser.frequencyBinCount));
+  }
+
+  private drawSpectrum(context: CanvasRenderingContext2D) {
+    const {width, height} = this.canvas;
+    this.analyser!.getByteFrequencyData(this.frequencyData);
+    context.clearRect(0, 0, width, height);
+    context.fillStyle = this.color;
+    const barWidth = width / SPECTRUM_BANDS;
+    for (let band = 0; band < SPECTRUM_BANDS; band++) {
+      const from = this.binAt(band / SPECTRUM_BANDS);
+      const to = Math.max(from + 1, this.binAt((band + 1) / SPECTRUM_BANDS));
+      let level = 0;
+      for (let bin = from; bin < to; bin++) {
+        level = Math.max(level, this.frequencyData[bin]);
+      }
+      const value = level / 255;
+      context.globalAlpha = 0.35 + 0.65 * value;
+      context.fillRect(band * barWidth + 1, height * (1 - value), barWidth - 2, height * value);
+    }
+    context.globalAlpha = 1;
+  }
+
+  /** Moves the picture left to make room for a new column on the right. */
+  private advance(context: CanvasRenderingContext2D) {
+    const {width, height} = this.canvas;
+    context.drawImage(this.canvas, -SCROLL_STEP, 0);
+    context.clearRect(width - SCROLL_STEP, 0, SCROLL_STEP, height);
+  }
+
+  private drawWaveform(context: CanvasRenderingContext2D) {
+    const {width, height} = this.canvas;
+    this.analyser!.getByteTimeDomainData(this.timeData);
+    let min = 255;
+    let max = 0;
+    for (const value of this.timeData) {
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    }
+    this.advance(context);
+    context.fillStyle = this.color;
+    const top = (max / 255) * height;
+    const bottom = (min / 255) * height;
+    // Byte 128 is silence; higher values are drawn upwards.
+    context.fillRect(width - SCROLL_STEP, height - top, SCROLL_STEP, Math.max(1, top - bottom));
+  }
+
+  private drawSpectrogram(context: CanvasRenderingContext2D) {
+    const {width, height} = this.canvas;
+    this.analyser!.getByteFrequencyData(this.frequencyData);
+    this.advance(context);
+    context.fillStyle = this.color;
+    const rows = Math.min(height, 128);
+    const rowHeight = height / rows;
+    for (let row = 0; row < rows; row++) {
+      const bin = this.binAt(row / rows);
+      const value = this.frequencyData[bin] / 255;
+      if (value === 0) continue;
+      context.globalAlpha = value * value;
+      context.fillRect(width - SCROLL_STEP, height - (row + 1) * rowHeight, SCROLL_STEP, rowHeight + 0.5);
+    }
+    context.globalAlpha = 1;
+  }
+
+  override render() {
+    return html`
+      <canvas></canvas>
+      <div class="toolbar">
+        ${map(
+          Object.entries(MODE_LABELS),
+          ([mode, label]) => html`<button
+            class=${mode === this.mode ? 'active' : ''}
+            @click=${() => this.change({mode: mode as VisualizerMode})}
+            aria-pressed=${mode === this.mode}
+          >
+            ${label}
+          </button>`,
+        )}
+        <select
+          @change=${(e: Event) => this.change({fps: parseInt((e.target as HTMLSelectElement).value, 10)})}
+          aria-label="Visualizer frame rate"
+        >
+          ${map(
+            FRAME_RATES,
+            (rate) => html`<option value=${rate} ?selected=${rate === this.fps}>${rate} fps</option>`,
+          )}
+        </select>
+      </div>
+    `;
+  }
+}
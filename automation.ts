@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Keyframe automation of prompt weights.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** How the value moves from a keyframe to the next one. */
+export type Interpolation = 'linear' | 'exponential' | 'step';
+
+export const INTERPOLATIONS: Interpolation[] = ['linear', 'exponential', 'step'];
+
+export interface Keyframe {
+  /** Seconds from the start of the timeline. */
+  time: number;
+  value: number;
+  interpolation: Interpolation;
+}
+
+// Exponential curves cannot start or end at zero, so they bottom out here.
+const EXPONENTIAL_FLOOR = 0.001;
+
+/** Returns a copy of `keyframes` ordered by time. */
+export function sortKeyframes(keyframes: Keyframe[]): Keyframe[] {
+  return [...keyframes].sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Evaluates a lane at `time`. Before the first keyframe the lane holds the
+ * first value, after the last it holds the last. Returns null for an empty
+ * lane. `keyframes` must be sorted by time.
+ */
+export function evaluateKeyframes(keyframes: Keyframe[], time: number): number | null {
+  if (keyframes.length === 0) {
+    return null;
+  }
+  if (time <= keyframes[0].time) {
+    return keyframes[0].value;
+  }
+  for (let i = 0; i < keyframes.length - 1; i++) {
+    const from = keyframes[i];
+    const to = keyframes[i + 1];
+    if (time >= to.time) {
+      continue;
+    }
+    const span = to.time - from.time;
+    const progress = span > 0 ? (time - from.time) / span : 1;
+    switch (from.interpolation) {
+      case 'step':
+        return from.value;
+      case 'exponential': {
+        const start = Math.max(from.value, EXPONENTIAL_FLOOR);
+        const end = Math.max(to.value, EXPONENTIAL_FLOOR);
+        const value = start * Math.pow(end / start, progress);
+        return value <= EXPONENTIAL_FLOOR ? 0 : value;
+      }
+      default:
+        return from.value + (to.value - from.value) * progress;
+    }
+  }
+  return keyframes[keyframes.length - 1].value;
+}
+
+/**
+ * Runs a timeline against an external clock, normally an `AudioContext`'s
+ * `currentTime`, and reports the position on every tick.
+ */
+export class AutomationPlayer {
+  private offset = 0;
+  private startedAt: number | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly clock: () => number | null,
+    private readonly onTick: (position: number) => void,
+    private readonly intervalMs = 100,
+  ) {}
+
+  get position(): number {
+    const now = this.clock();
+    if (this.startedAt === null || now === null) {
+      return this.offset;
+    }
+    return this.offset + (now - this.startedAt);
+  }
+
+  get running() {
+    return this.timer !== null;
+  }
+
+  start() {
+    if (this.running) return;
+    this.startedAt = this.clock();
+    this.timer = setInterval(() => this.onTick(this.position), this.intervalMs);
+    this.onTick(this.position);
+  }
+
+  pause() {
+    if (!this.running) return;
+    this.offset = this.position;
+    this.startedAt = null;
+    clearInterval(this.timer!);
+    this.timer = null;
+  }
+
+  seek(position: number) {
+    this.offset = position;
+    this.startedAt = this.running ? this.clock() : null;
+    this.onTick(this.position);
+  }
+
+  stop() {
+    this.pause();
+    this.offset = 0;
+  }
+}
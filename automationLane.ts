@@ -0,0 +1,189 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {css, html, LitElement} from 'lit';
+import {customElement, property} from 'lit/decorators.js';
+import {map} from 'lit/directives/map.js';
+import {styleMap} from 'lit/directives/style-map.js';
+
+import {
+  evaluateKeyframes,
+  INTERPOLATIONS,
+  type Interpolation,
+  type Keyframe,
+  sortKeyframes,
+} from './automation';
+
+const MAX_WEIGHT = 2;
+const CURVE_RESOLUTION = 200;
+
+// AutomationLane component
+// -----------------------------------------------------------------------------
+/**
+ * A timeline for drawing weight keyframes. Click to add a keyframe and drag to
+ * move it; double-click removes it and right-click cycles its interpolation.
+ */
+@customElement('automation-lane')
+export class AutomationLane extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      position: relative;
+      height: 60px;
+      background-color: #0006;
+      border-radius: 6px;
+      cursor: crosshair;
+      touch-action: none;
+    }
+    .lane {
+      position: relative;
+      width: 100%;
+      height: 100%;
+    }
+    svg {
+      width: 100%;
+      height: 100%;
+      display: block;
+    }
+    .keyframe {
+      position: absolute;
+      width: 10px;
+      height: 10px;
+      margin: -5px 0 0 -5px;
+      border-radius: 50%;
+      border: 1px solid #1a1a1a;
+      cursor: grab;
+    }
+    .keyframe.step {
+      border-radius: 2px;
+    }
+    .playhead {
+      position: absolute;
+      top: 0;
+      bottom: 0;
+      width: 1px;
+      background-color: #e0e0e0;
+      pointer-events: none;
+    }
+  `;
+
+  @property({attribute: false}) keyframes: Keyframe[] = [];
+  @property({type: Number}) duration = 60;
+  @property({type: Number}) position = 0;
+  @property({type: String}) color = '#000';
+  /** Interpolation given to newly added keyframes. */
+  @property({type: String}) interpolation: Interpolation = 'linear';
+
+  private dragging: Keyframe | null = null;
+  private bounds: DOMRect | null = null;
+
+  private pointToKeyframe(clientX: number, clientY: number) {
+    const bounds = this.bounds!;
+    const x = Math.max(0, Math.min(1, (clientX - bounds.left) / bounds.width));
+    const y = Math.max(0, Math.min(1, (clientY - bounds.top) / bounds.height));
+    return {
+      time: parseFloat((x * this.duration).toFixed(2)),
+      value: parseFloat(((1 - y) * MAX_WEIGHT).toFixed(2)),
+    };
+  }
+
+  private handlePointerDown(e: PointerEvent) {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    this.bounds = this.getBoundingClientRect();
+    const index = Number((e.target as Element).getAttribute('data-index'));
+    if ((e.target as Element).classList.contains('keyframe')) {
+      this.dragging = this.keyframes[index];
+    } else {
+      this.dragging = {
+        ...this.pointToKeyframe(e.clientX, e.clientY),
+        interpolation: this.interpolation,
+      };
+      this.emitChange([...this.keyframes, this.dragging]);
+    }
+    document.body.classList.add('dragging');
+    window.addEventListener('pointermove', this.handlePointerMove);
+    window.addEventListener('pointerup', this.handlePointerUp, {once: true});
+  }
+
+  private handlePointerMove = (e: PointerEvent) => {
+    if (!this.dragging) return;
+    const moved = {...this.dragging, ...this.pointToKeyframe(e.clientX, e.clientY)};
+    const rest = this.keyframes.filter((k) => k !== this.dragging);
+    this.dragging = moved;
+    this.emitChange([...rest, moved]);
+  };
+
+  private handlePointerUp = () => {
+    window.removeEventListener('pointermove', this.handlePointerMove);
+    document.body.classList.remove('dragging');
+    this.dragging = null;
+    this.bounds = null;
+  };
+
+  private removeKeyframe(keyframe: Keyframe) {
+    this.emitChange(this.keyframes.filter((k) => k !== keyframe));
+  }
+
+  private cycleInterpolation(e: MouseEvent, keyframe: Keyframe) {
+    e.preventDefault();
+    const next =
+      INTERPOLATIONS[(INTERPOLATIONS.indexOf(keyframe.interpolation) + 1) % INTERPOLATIONS.length];
+    this.emitChange(
+      this.keyframes.map((k) => (k === keyframe ? {...k, interpolation: next} : k)),
+    );
+  }
+
+  private emitChange(keyframes: Keyframe[]) {
+    this.keyframes = sortKeyframes(keyframes);
+    this.dispatchEvent(new CustomEvent('keyframes-change', {detail: this.keyframes}));
+  }
+
+  override render() {
+    // The curve uses a 0-1000 by 0-100 viewBox, stretched to the lane's size.
+    const points: string[] = [];
+    if (this.keyframes.length > 0) {
+      for (let i = 0; i <= CURVE_RESOLUTION; i++) {
+        const time = (i / CURVE_RESOLUTION) * this.duration;
+        const value = evaluateKeyframes(this.keyframes, time)!;
+        points.push(`${(time / this.duration) * 1000},${(1 - value / MAX_WEIGHT) * 100}`);
+      }
+    }
+    const playheadStyle = styleMap({
+      left: `${(Math.min(this.position, this.duration) / this.duration) * 100}%`,
+    });
+    return html`
+      <div class="lane" @pointerdown=${this.handlePointerDown}>
+        <svg viewBox="0 0 1000 100" preserveAspectRatio="none">
+          <polyline
+            points=${points.join(' ')}
+            fill="none"
+            stroke=${this.color}
+            stroke-width="2"
+            vector-effect="non-scaling-stroke"
+          ></polyline>
+        </svg>
+        ${map(
+          this.keyframes,
+          (k, i) => html`
+            <div
+              class="keyframe ${k.interpolation}"
+              data-index=${i}
+              style=${styleMap({
+                left: `${(k.time / this.duration) * 100}%`,
+                top: `${(1 - k.value / MAX_WEIGHT) * 100}%`,
+                backgroundColor: k.interpolation === 'step' ? '#e0e0e0' : this.color,
+              })}
+              title="${k.time.toFixed(2)}s → ${k.value.toFixed(2)} (${k.interpolation})"
+              @dblclick=${() => this.removeKeyframe(k)}
+              @contextmenu=${(e: MouseEvent) => this.cycleInterpolation(e, k)}
+            ></div>
+          `,
+        )}
+        <div class="playhead" style=${playheadStyle}></div>
+      </div>
+    `;
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * @fileoverview AudioWorklet processor that turns device audio into 16 kHz
+ * Int16 PCM batches for the live session, off the main thread.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {downmix, floatToInt16, Resampler} from './pcm';
+
+// Globals of the AudioWorkletGlobalScope, which lib.dom does not describe.
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor,
+): void;
+
+export interface CaptureProcessorOptions {
+  targetRate: number;
+  /** Samples at `targetRate` per posted blob. */
+  batchSize: number;
+}
+
+/** Message posted to the main thread for every batch. */
+export interface CaptureChunk {
+  /** A copy of the batch; the worklet keeps reusing its own buffer. */
+  samples: Int16Array;
+}
+
+class CaptureProcessor extends AudioWorkletProcessor {
+  private readonly resampler: Resampler;
+  private readonly batch: Float32Array;
+  private readonly pcm: Int16Array;
+  private filled = 0;
+  private mono = new Float32Array(128);
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    const {targetRate, batchSize} = options.processorOptions as CaptureProcessorOptions;
+    this.resampler = new Resampler(sampleRate, targetRate);
+    this.batch = new Float32Array(batchSize);
+    this.pcm = new Int16Array(batchSize);
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) {
+      return true;
+    }
+    if (this.mono.length !== channels[0].length) {
+      this.mono = new Float32Array(channels[0].length);
+    }
+    const length = this.resampler.process(downmix(channels, this.mono));
+    const resampled = this.resampler.output;
+    for (let i = 0; i < length; i++) {
+      this.batch[this.filled++] = resampled[i];
+      if (this.filled === this.batch.length) {
+        this.flush();
+      }
+    }
+    return true;
+  }
+
+  /** Posts the batch as Int16; the main thread encodes it for the session. */
+  private flush() {
+    const chunk: CaptureChunk = {samples: floatToInt16(this.batch, this.pcm)};
+    this.port.postMessage(chunk);
+    this.filled = 0;
+  }
+}
+
+registerProcessor('capture-processor', CaptureProcessor);
@@ -0,0 +1,894 @@
+/**
+ * @fileoverview A deck plays one live music session into the shared mix.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {Blob as MediaBlob, LiveServerMessage} from '@google/genai';
+import type {ReactiveController, ReactiveControllerHost} from 'lit';
+import {
+  AutomationPlayer,
+  evaluateKeyframes,
+  type Interpolation,
+  type Keyframe,
+} from './automation';
+import {
+  createMusicSource,
+  type MusicSession,
+  type MusicSource,
+  type MusicSourceKind,
+  OUTPUT_SAMPLE_RATE,
+} from './musicSource';
+import {DvrBuffer} from './dvrBuffer';
+import {AppError, toAppError} from './errors';
+import {PlayoutBuffer, type UnderrunDetail} from './playoutBuffer';
+import {type MorphPlan, morphPrompts, planMorph} from './scenes';
+import type {DeckSet} from './setFile';
+import {ReplayMusicSource, type SessionLog, SessionRecorder} from './sessionLog';
+import type {StreamAnalysis, TempoEstimate} from './streamAnalysis';
+import {StreamAnalyzer} from './streamAnalyzer';
+import {MIN_TEMPO_CONFIDENCE, nextBoundary} from './quantize';
+import type {LiveMusicGenerationConfig, Prompt} from './types';
+import {decode, decodeAudioData, throttle} from './utils';
+
+export type PlaybackState = 'stopped' | 'playing' | 'loading' | 'paused' | 'reconnecting';
+
+// Seconds of received audio each deck keeps for time-shifted playback.
+const DVR_SECONDS = 300;
+// How far past the target latency the DVR keeps the playout buffer filled.
+const PUMP_LOOKAHEAD = 0.5;
+const PUMP_CHUNK_SECONDS = 0.25;
+const PUMP_INTERVAL_MS = 100;
+// Playback closer than this to the newest chunk counts as live.
+const LIVE_THRESHOLD = 0.5;
+// How often pending quantized edits check the clock and redraw the countdown.
+const QUANTIZE_POLL_MS = 20;
+
+// Reconnect backoff: 0.5 s, 1 s, 2 s, ... capped, then give up.
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 8000;
+const MAX_RECONNECT_ATTEMPTS = 6;
+export type DeckId = 'A' | 'B';
+export type CrossfaderCurve = 'equal-power' | 'linear';
+
+/** Returns the [deck A, deck B] gains for a crossfader position in [0, 1]. */
+export function crossfaderGains(
+  position: number,
+  curve: CrossfaderCurve,
+): [number, number] {
+  const x = Math.max(0, Math.min(1, position));
+  if (curve === 'linear') {
+    return [1 - x, x];
+  }
+  // Equal power keeps the perceived loudness constant across the fade.
+  return [Math.cos((x * Math.PI) / 2), Math.sin((x * Math.PI) / 2)];
+}
+
+/** The shared output graph a deck plays into. */
+export interface OutputBus {
+  context: AudioContext;
+  destination: AudioNode;
+}
+
+export interface DeckHost extends ReactiveControllerHost {
+  readonly sessionLogEnabled: boolean;
+  /**
+   * Prepares the shared audio graph and input capture for a deck that is
+   * starting. Resolves to null if the audio contexts are unavailable.
+   */
+  acquireAudio(deck: Deck): Promise<OutputBus | null>;
+  /** Called once a deck has stopped and released its nodes. */
+  releaseAudio(deck: Deck): void;
+  /** Shows an error to the user without interrupting playback. */
+  reportError(error: AppError, source: string): void;
+  /** Called whenever the deck sends its prompts to the session. */
+  promptsSent(deck: Deck): void;
+  /** A new prompt for `text`, with a color not yet used on the deck. */
+  createPrompt(deck: Deck, text: string): Prompt;
+  /**
+   * Seconds between the boundaries that prompt edits wait for, or null to
+   * send them right away.
+   */
+  quantizePeriod(deck: Deck): number | null;
+}
+
+/**
+ * One side of the mixer: its own prompt list, live session and playback
+ * scheduling, routed through a deck gain and a crossfader gain.
+ */
+export class Deck implements ReactiveController {
+  prompts: Prompt[] = [];
+  playbackState: PlaybackState = 'stopped';
+  gain = 1;
+  // Fall back to the offline generator when no API key is configured.
+  musicSourceKind: MusicSourceKind = process.env.API_KEY ? 'gemini' : 'synthetic';
+  /** Overrides the backend chosen by `musicSourceKind`, e.g. in tests. */
+  musicSource: MusicSource | null = null;
+
+  // Session capture and replay
+  replayLog: SessionLog | null = null;
+  replayLogName = '';
+  sessionLogUrl: string | null = null;
+  private sessionRecorder: SessionRecorder | null = null;
+
+  // Weight automation, keyed by promptId and clocked by the output context
+  automation: Record<string, Keyframe[]> = {};
+  automationEnabled = false;
+  automationLength = 60; // seconds
+  automationLoop = false;
+  automationInterpolation: Interpolation = 'linear';
+  private automationPlayer = new AutomationPlayer(
+    () => this.bus?.context.currentTime ?? null,
+    (position) => this.applyAutomation(position),
+  );
+
+  // Scene morphing, clocked by the output context once it exists
+  private morph: {plan: MorphPlan; duration: number} | null = null;
+  private morphPlayer = new AutomationPlayer(
+    () => this.bus?.context.currentTime ?? performance.now() / 1000,
+    (elapsed) => this.applyMorph(elapsed),
+  );
+
+  private bus: OutputBus | null = null;
+  private gainNode: GainNode | null = null;
+  private faderNode: GainNode | null = null;
+  private faderGain = 1;
+  private playout: PlayoutBuffer | null = null;
+
+  // Playout buffer settings and stats
+  baseLatencyMs = 100;
+  underruns = 0;
+
+  // Prompt edits held back until the next quantize boundary. `prompts`
+  // shows them right away; the session only hears `committedPrompts`. The
+  // grid runs on the output context clock from a detected beat, or from
+  // when the deck started.
+  pendingEdits = 0;
+  private committedPrompts: Prompt[] = [];
+  private pendingBoundary: number | null = null;
+  private quantizeTimer: ReturnType<typeof setInterval> | null = null;
+  private gridOrigin = 0;
+
+  // Tempo and key of the stream as it arrives, restarted when the prompt
+  // texts change
+  private readonly analyzer = new StreamAnalyzer(OUTPUT_SAMPLE_RATE, () => this.host.requestUpdate());
+  private analyzedPrompts = '';
+
+  // Time-shift: everything received goes through the DVR, which feeds the
+  // playout buffer from its read head.
+  jumpBackSeconds = 10;
+  private dvr: DvrBuffer | null = null;
+  private lastChunkFrames = 0;
+  private pumpTimer: ReturnType<typeof setInterval> | null = null;
+  private sessionPromise: Promise<MusicSession> | null = null;
+  // The source of the current run, reused when reconnecting
+  private activeSource: MusicSource | null = null;
+  private sessionGeneration = 0;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private stateBeforeReconnect: 'playing' | 'paused' = 'playing';
+  // Set once a replay has delivered its last message; the deck stops when
+  // the audio still queued has played out.
+  private replayEnded = false;
+
+  constructor(
+    private readonly host: DeckHost,
+    readonly id: DeckId,
+  ) {
+    host.addController(this);
+  }
+
+  hostDisconnected() {
+    // When the host is removed, ensure the session and its audio are released.
+    this.stop();
+  }
+
+  get isActive() {
+    return this.playbackState !== 'stopped';
+  }
+
+  /** Whether audio is being heard, including from the DVR while reconnecting. */
+  get isPlayingOut() {
+    return (
+      this.playbackState === 'playing' ||
+      (this.playbackState === 'reconnecting' && this.stateBeforeReconnect === 'playing')
+    );
+  }
+
+  // Fix: Adjusted the return type of currentMusicConfig and its implementation to match the new LiveMusicGenerationConfig interface.
+  get currentMusicConfig(): LiveMusicGenerationConfig {
+    const weightedPrompts = this.committedPrompts.map((p) => ({
+      text: p.text,
+      weight: p.weight,
+    }));
+    if (weightedPrompts.length === 0) {
+      return {weightedPrompts: [{text: 'ambient pads', weight: 0.7}]};
+    }
+    return {weightedPrompts: weightedPrompts};
+  }
+
+  addPrompt(prompt: Prompt) {
+    this.prompts = [...this.prompts, prompt];
+    this.queuePromptUpdate();
+  }
+
+  removePrompt(promptId: string) {
+    this.prompts = this.prompts.filter((p) => p.promptId !== promptId);
+    delete this.automation[promptId];
+    this.queuePromptUpdate();
+  }
+
+  updatePromptWeight(promptId: string, newWeight: number) {
+    this.prompts = this.prompts.map((p) =>
+      p.promptId === promptId ? {...p, weight: newWeight} : p,
+    );
+    this.queuePromptUpdate();
+  }
+
+  /** Seconds until pending edits are sent, or null if none are waiting. */
+  get pendingEditsIn(): number | null {
+    const context = this.bus?.context;
+    if (this.pendingBoundary === null || !context) return null;
+    return Math.max(0, this.pendingBoundary - context.currentTime);
+  }
+
+  /**
+   * Sends an edit now, or at the next boundary while quantizing and heard.
+   * Edits show in `prompts` right away; later ones join the same boundary.
+   */
+  private queuePromptUpdate() {
+    const period = this.host.quantizePeriod(this);
+    const context = this.bus?.context;
+    if (period === null || !context || !this.isPlayingOut) {
+      this.flushPendingEdits();
+      return;
+    }
+    this.pendingEdits++;
+    if (this.pendingBoundary === null) {
+      this.pendingBoundary = nextBoundary(context.currentTime, this.gridStart(context), period);
+      // Polls the audio clock; the countdown redraws every tenth of a second.
+      let shown = -1;
+      this.quantizeTimer = setInterval(() => {
+        const remaining = this.pendingEditsIn;
+        if (remaining === null || remaining === 0) {
+          this.flushPendingEdits();
+        } else if (Math.ceil(remaining * 10) !== shown) {
+          shown = Math.ceil(remaining * 10);
+          this.host.requestUpdate();
+        }
+      }, QUANTIZE_POLL_MS);
+    }
+    this.host.requestUpdate();
+  }
+
+  /** Sends pending edits now, e.g. when quantizing is switched off. */
+  flushPendingEdits() {
+    this.cancelPendingEdits();
+    this.committedPrompts = this.prompts;
+    this.sendPromptUpdate();
+  }
+
+  /** The detected tempo, if it is sure enough to put the grid on. */
+  get gridTempo(): TempoEstimate | null {
+    const {tempo} = this.analysis;
+    return tempo && tempo.confidence >= MIN_TEMPO_CONFIDENCE ? tempo : null;
+  }
+
+  /**
+   * A point of the grid on the output clock: the detected beat, mapped from
+   * stream time through what is heard now, or else the deck's start. The
+   * beat need not be a downbeat, so bar grids can sit off the bar line.
+   */
+  private gridStart(context: BaseAudioContext): number {
+    const tempo = this.gridTempo;
+    if (!tempo || !this.dvr || !this.playout) return this.gridOrigin;
+    const heard = this.dvr.position / OUTPUT_SAMPLE_RATE - this.playout.bufferedAhead;
+    return context.currentTime + tempo.phase - heard;
+  }
+
+  private cancelPendingEdits() {
+    if (this.quantizeTimer !== null) {
+      clearInterval(this.quantizeTimer);
+      this.quantizeTimer = null;
+    }
+    this.pendingBoundary = null;
+    this.pendingEdits = 0;
+  }
+
+  sendPromptUpdate = throttle(() => {
+    // This function will be throttled, preventing rapid updates.
+    this.restartAnalysisIfPromptsChanged();
+    if (this.sessionPromise) {
+      this.sessionRecorder?.recordPromptUpdate(this.currentMusicConfig);
+      this.host.promptsSent(this);
+      this.sessionPromise.then((session) => {
+        if (session) {
+          session.sendRealtimeInput({musicGenerationConfig: this.currentMusicConfig});
+        }
+      });
+    }
+    this.host.requestUpdate();
+  }, 100); // Throttles to 100ms
+
+  /** Estimated tempo and key of the recent stream. */
+  get analysis(): StreamAnalysis {
+    return this.analyzer.analysis;
+  }
+
+  /**
+   * Weight changes just move through the analysis window; a different set
+   * of sounding prompts starts it over.
+   */
+  private restartAnalysisIfPromptsChanged() {
+    const texts = this.committedPrompts
+      .filter((p) => p.weight > 0)
+      .map((p) => p.text)
+      .sort()
+      .join('\n');
+    if (texts === this.analyzedPrompts) return;
+    this.analyzedPrompts = texts;
+    this.analyzer.restart();
+  }
+
+  /** Forwards captured input audio to the session while it is live. */
+  sendMedia(media: MediaBlob) {
+    if (!this.sessionPromise || this.playbackState === 'stopped' || this.playbackState === 'loading') {
+      return;
+    }
+    this.sessionPromise.then((session) => {
+      if (session && this.playbackState !== 'stopped' && this.playbackState !== 'loading') {
+        session.sendRealtimeInput({media});
+      }
+    }).catch(e => {
+      // Ignore errors if session is already closing/closed
+      if (!e.message.includes("closed") && !e.message.includes("terminating")) {
+        console.error("Error sending realtime input:", e);
+      }
+    });
+  }
+
+  setGain(gain: number) {
+    this.gain = gain;
+    if (this.gainNode) {
+      this.gainNode.gain.value = gain;
+    }
+    this.host.requestUpdate();
+  }
+
+  setFaderGain(gain: number) {
+    this.faderGain = gain;
+    if (this.faderNode) {
+      this.faderNode.gain.value = gain;
+    }
+  }
+
+  /** The latency the playout buffer is currently targeting, in ms. */
+  get currentLatencyMs(): number {
+    return this.playout ? this.playout.targetLatency * 1000 : this.baseLatencyMs;
+  }
+
+  setBaseLatency(ms: number) {
+    this.baseLatencyMs = ms;
+    this.playout?.setBaseLatency(ms / 1000);
+    this.host.requestUpdate();
+  }
+
+  /** Seconds between what is heard and the newest received chunk. */
+  get behindLiveSeconds(): number {
+    if (!this.dvr || !this.playout) return 0;
+    const liveStart = this.dvr.written - this.lastChunkFrames;
+    const heard = this.dvr.position - this.playout.bufferedAhead * OUTPUT_SAMPLE_RATE;
+    return Math.max(0, (liveStart - heard) / OUTPUT_SAMPLE_RATE);
+  }
+
+  get isLive(): boolean {
+    return this.behindLiveSeconds < LIVE_THRESHOLD;
+  }
+
+  setJumpBackSeconds(seconds: number) {
+    this.jumpBackSeconds = seconds;
+    this.host.requestUpdate();
+  }
+
+  /** Replays from `seconds` before what is currently heard. */
+  jumpBack(seconds = this.jumpBackSeconds) {
+    if (!this.dvr) return;
+    this.rewindToPlayhead();
+    this.dvr.seek(this.dvr.position - seconds * OUTPUT_SAMPLE_RATE);
+    this.pump();
+    this.host.requestUpdate();
+  }
+
+  /** Skips the time-shifted backlog and plays the newest chunk. */
+  catchUpToLive() {
+    if (!this.dvr || !this.playout) return;
+    this.playout.flush();
+    this.dvr.seek(this.dvr.written - this.lastChunkFrames);
+    this.pump();
+    this.host.requestUpdate();
+  }
+
+  setMusicSourceKind(kind: MusicSourceKind) {
+    this.musicSourceKind = kind;
+    this.host.requestUpdate();
+  }
+
+  setReplayLog(log: SessionLog | null, name = '') {
+    this.replayLog = log;
+    this.replayLogName = log ? name : '';
+    this.host.requestUpdate();
+  }
+
+  /** Current playhead on the automation timeline, in seconds. */
+  get automationPosition(): number {
+    return this.toTimelineTime(this.automationPlayer.position);
+  }
+
+  setAutomationLane(promptId: string, keyframes: Keyframe[]) {
+    this.automation = {...this.automation, [promptId]: keyframes};
+    this.host.requestUpdate();
+  }
+
+  setAutomationEnabled(enabled: boolean) {
+    this.automationEnabled = enabled;
+    this.applyAutomation(this.automationPlayer.position);
+  }
+
+  setAutomationLength(seconds: number) {
+    this.automationLength = Math.max(1, seconds);
+    this.host.requestUpdate();
+  }
+
+  setAutomationLoop(loop: boolean) {
+    this.automationLoop = loop;
+    this.host.requestUpdate();
+  }
+
+  setAutomationInterpolation(interpolation: Interpolation) {
+    this.automationInterpolation = interpolation;
+    this.host.requestUpdate();
+  }
+
+  rewindAutomation() {
+    this.automationPlayer.seek(0);
+  }
+
+  /** Whether the deck plays a session log, which fixes its prompts. */
+  get isReplaying(): boolean {
+    return this.activeSource?.kind === 'replay';
+  }
+
+  /** Drives prompt weights from their lanes at a timeline position. */
+  private applyAutomation(position: number) {
+    if (!this.automationEnabled || this.isReplaying) {
+      this.host.requestUpdate();
+      return;
+    }
+    const time = this.toTimelineTime(position);
+    let changed = false;
+    // Lanes move both the shown and the sent weights, so pending edits to
+    // other prompts stay pending.
+    const automate = (prompts: Prompt[]) =>
+      prompts.map((p) => {
+        const value = evaluateKeyframes(this.automation[p.promptId] ?? [], time);
+        if (value === null) return p;
+        const weight = parseFloat(value.toFixed(2));
+        if (weight === p.weight) return p;
+        changed = true;
+        return {...p, weight};
+      });
+    this.prompts = automate(this.prompts);
+    this.committedPrompts = automate(this.committedPrompts);
+    if (changed) {
+      this.sendPromptUpdate();
+    } else {
+      this.host.requestUpdate();
+    }
+  }
+
+  private toTimelineTime(position: number) {
+    return this.automationLoop
+      ? position % this.automationLength
+      : Math.min(position, this.automationLength);
+  }
+
+  /** Progress of the running scene morph in [0, 1], or null if idle. */
+  get morphProgress(): number | null {
+    if (!this.morph) return null;
+    return this.morph.duration > 0
+      ? Math.min(1, this.morphPlayer.position / this.morph.duration)
+      : 1;
+  }
+
+  /**
+   * Morphs the prompt list to `target` over `seconds`, starting from what
+   * the session hears. Edits still waiting for a boundary are dropped, as
+   * the morph replaces the prompts anyway.
+   */
+  morphTo(target: Prompt[], seconds: number) {
+    this.morphPlayer.stop();
+    this.cancelPendingEdits();
+    this.morph = {plan: planMorph(this.committedPrompts, target), duration: Math.max(0, seconds)};
+    this.morphPlayer.start();
+  }
+
+  private applyMorph(elapsed: number) {
+    if (!this.morph) return;
+    const progress = this.morph.duration > 0 ? Math.min(1, elapsed / this.morph.duration) : 1;
+    this.prompts = this.committedPrompts = morphPrompts(this.morph.plan, progress);
+    if (progress >= 1) {
+      this.morphPlayer.stop();
+      this.morph = null;
+      const promptIds = new Set(this.prompts.map((p) => p.promptId));
+      this.automation = Object.fromEntries(
+        Object.entries(this.automation).filter(([promptId]) => promptIds.has(promptId)),
+      );
+    }
+    this.sendPromptUpdate();
+  }
+
+  /** The persistent part of the deck's state. */
+  toSet(): DeckSet {
+    return {
+      prompts: this.prompts.map((p) => ({...p})),
+      gain: this.gain,
+      musicSourceKind: this.musicSourceKind,
+      automation: this.automation,
+      automationLength: this.automationLength,
+      automationLoop: this.automationLoop,
+    };
+  }
+
+  /** Loads a set, replacing any edits still waiting for a boundary. */
+  applySet(set: DeckSet) {
+    this.cancelPendingEdits();
+    this.prompts = this.committedPrompts = set.prompts.map((p) => ({...p}));
+    this.musicSourceKind = set.musicSourceKind;
+    this.automation = set.automation;
+    this.automationLength = set.automationLength;
+    this.automationLoop = set.automationLoop;
+    this.setGain(set.gain);
+    this.sendPromptUpdate();
+  }
+
+  togglePlayPause() {
+    if (this.playbackState === 'stopped' || this.playbackState === 'paused') {
+      if (this.playbackState === 'paused') {
+        this.resume();
+      } else {
+        this.connect();
+      }
+    } else if (this.playbackState === 'playing') {
+      this.pause();
+    }
+  }
+
+  async connect() {
+    if (this.playbackState === 'playing' || this.playbackState === 'loading') {
+      return;
+    }
+    this.playbackState = 'loading';
+    this.host.requestUpdate();
+
+    try {
+      this.bus = await this.host.acquireAudio(this);
+      if (!this.bus) {
+        this.reportError(new AppError('audio-context', 'Failed to initialize audio contexts.'));
+        this.teardown(); // Clean up on initialization failure
+        return;
+      }
+      const {context, destination} = this.bus;
+      this.gridOrigin = context.currentTime;
+      this.faderNode = context.createGain();
+      this.faderNode.gain.value = this.faderGain;
+      this.faderNode.connect(destination);
+      this.gainNode = context.createGain();
+      this.gainNode.gain.value = this.gain;
+      this.gainNode.connect(this.faderNode);
+      this.underruns = 0;
+      this.playout = new PlayoutBuffer(context, this.gainNode, {
+        targetLatency: this.baseLatencyMs / 1000,
+      });
+      this.playout.addEventListener('underrun', (e) => {
+        const {count, gap} = (e as CustomEvent<UnderrunDetail>).detail;
+        console.warn(`Deck ${this.id} underrun #${count}: ${(gap * 1000).toFixed(0)} ms gap`);
+        this.underruns = count;
+        this.host.requestUpdate();
+      });
+      this.dvr = new DvrBuffer(OUTPUT_SAMPLE_RATE, DVR_SECONDS);
+      this.lastChunkFrames = 0;
+      this.pumpTimer = setInterval(() => this.pump(), PUMP_INTERVAL_MS);
+
+      const musicSource =
+        this.musicSource ??
+        (this.replayLog
+          ? new ReplayMusicSource(this.replayLog)
+          : createMusicSource(this.musicSourceKind));
+      if (this.host.sessionLogEnabled) {
+        this.startSessionLog(musicSource.kind);
+      }
+      this.activeSource = musicSource;
+      this.reconnectAttempts = 0;
+      await this.openSession(musicSource);
+    } catch (error) {
+      this.reportError(toAppError(error, 'session-connect'));
+      this.teardown(); // Clean up local resources on connection error
+    }
+  }
+
+  /**
+   * Opens a session on `source`. Callbacks of earlier sessions are ignored,
+   * so a late close from a dropped connection cannot end its replacement.
+   */
+  private async openSession(source: MusicSource) {
+    const generation = ++this.sessionGeneration;
+    const isCurrent = () => generation === this.sessionGeneration;
+    this.sessionPromise = source.connect({
+      config: this.currentMusicConfig,
+      callbacks: {
+        onopen: () => {
+          if (!isCurrent()) return;
+          if (this.playbackState === 'reconnecting') {
+            console.info(`Deck ${this.id} reconnected after ${this.reconnectAttempts} attempt(s).`);
+            this.playbackState = this.stateBeforeReconnect;
+            this.reconnectAttempts = 0;
+          } else {
+            this.playbackState = 'playing';
+            this.automationPlayer.start();
+          }
+          this.host.requestUpdate();
+        },
+        onmessage: (message: LiveServerMessage) => {
+          if (isCurrent()) this.handleMessage(message);
+        },
+        onconfig: (config: LiveMusicGenerationConfig) => {
+          if (isCurrent()) this.applyRecordedConfig(config);
+        },
+        onerror: (e: Event) => {
+          if (!isCurrent()) return;
+          this.reportError(new AppError('stream-error', undefined, {cause: e}));
+          this.handleSessionLost();
+        },
+        onclose: (e: CloseEvent) => {
+          if (!isCurrent()) return;
+          console.debug(`Deck ${this.id} session closed:`, e);
+          this.handleSessionLost();
+        },
+      },
+    });
+    const session = await this.sessionPromise;
+    if (isCurrent() && this.playbackState !== 'stopped') {
+      // Prompts may have changed while connecting.
+      session.sendRealtimeInput({musicGenerationConfig: this.currentMusicConfig});
+      this.host.promptsSent(this);
+    }
+  }
+
+  /**
+   * Decides between reconnecting and tearing down after the session ended.
+   * A stopped deck closed on purpose. Replays end by closing and play out
+   * what is still queued first.
+   */
+  private handleSessionLost() {
+    this.sessionGeneration++; // Ignore anything else from the lost session.
+    this.sessionPromise = null;
+    if (this.playbackState === 'stopped') {
+      this.teardown(); // Clean up local resources on close
+      return;
+    }
+    if (this.activeSource?.kind === 'replay') {
+      this.replayEnded = true;
+      this.pump();
+      return;
+    }
+    if (this.playbackState !== 'reconnecting') {
+      this.stateBeforeReconnect = this.playbackState === 'paused' ? 'paused' : 'playing';
+      this.playbackState = 'reconnecting';
+      this.host.requestUpdate();
+    }
+    this.scheduleReconnect();
+  }
+
+  /** Retries with exponential backoff; the audio graph keeps playing. */
+  private scheduleReconnect() {
+    if (this.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      this.reportError(
+        new AppError(
+          'session-connect',
+          `Lost the music stream and could not reconnect after ${MAX_RECONNECT_ATTEMPTS} attempts.`,
+        ),
+      );
+      this.teardown();
+      return;
+    }
+    const delay = Math.min(
+      RECONNECT_MAX_DELAY_MS,
+      RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts,
+    );
+    this.reconnectAttempts++;
+    console.warn(`Deck ${this.id}: reconnecting in ${delay} ms (attempt ${this.reconnectAttempts}).`);
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      if (this.playbackState !== 'reconnecting' || !this.activeSource) return;
+      try {
+        await this.openSession(this.activeSource);
+      } catch (error) {
+        console.error(`Deck ${this.id} reconnect attempt failed:`, error);
+        if (this.playbackState === 'reconnecting') {
+          this.sessionPromise = null;
+          this.scheduleReconnect();
+        }
+      }
+    }, delay);
+  }
+
+  private cancelReconnect() {
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  async stop() {
+    this.cancelReconnect();
+    const sessionPromise = this.sessionPromise;
+    // Immediate UI update, but actual audio cleanup happens in onclose. The
+    // state is set first so that onclose does not try to reconnect.
+    if (this.playbackState !== 'stopped') {
+      this.playbackState = 'stopped';
+      this.host.requestUpdate();
+    }
+    const session = sessionPromise ? await sessionPromise.catch(() => null) : null;
+    if (session) {
+      session.close(); // This will trigger onclose.
+    } else if (this.bus) {
+      // Stopped while waiting to reconnect: there is no session to close.
+      this.teardown();
+    }
+  }
+
+  pause() {
+    if (this.playbackState !== 'playing') return;
+
+    // Do NOT close session or stop mic stream. The model continues to
+    // generate into the DVR, and resume picks up where playback stopped.
+    this.rewindToPlayhead();
+    this.automationPlayer.pause();
+    this.playbackState = 'paused';
+    this.host.requestUpdate();
+  }
+
+  resume() {
+    if (this.playbackState !== 'paused') return;
+    this.playbackState = 'playing';
+    this.automationPlayer.start();
+    this.pump();
+    this.host.requestUpdate();
+  }
+
+  /**
+   * Stops scheduled audio and moves the DVR read head back over the part of
+   * it that was not heard yet.
+   */
+  private rewindToPlayhead() {
+    if (!this.dvr || !this.playout) return;
+    this.dvr.seek(this.dvr.position - this.playout.bufferedAhead * OUTPUT_SAMPLE_RATE);
+    this.playout.flush();
+  }
+
+  /**
+   * Moves audio from the DVR read head into the playout buffer, and stops
+   * an ended replay once everything has been heard.
+   */
+  private pump() {
+    const context = this.bus?.context;
+    const {dvr, playout} = this;
+    if (!context || !dvr || !playout || !this.isPlayingOut) return;
+    const chunkFrames = Math.round(PUMP_CHUNK_SECONDS * OUTPUT_SAMPLE_RATE);
+    while (dvr.available > 0 && playout.bufferedAhead < playout.targetLatency + PUMP_LOOKAHEAD) {
+      const samples = dvr.read(chunkFrames);
+      const buffer = context.createBuffer(1, samples.length, OUTPUT_SAMPLE_RATE);
+      buffer.copyToChannel(samples, 0);
+      playout.enqueue(buffer);
+    }
+    if (this.replayEnded && dvr.available === 0 && playout.bufferedAhead === 0) {
+      this.teardown();
+    }
+  }
+
+  /**
+   * Shows the prompts a replayed session had at this point. Prompts keep
+   * their id and color while their text stays on the deck.
+   */
+  private applyRecordedConfig(config: LiveMusicGenerationConfig) {
+    const remaining = [...this.prompts];
+    this.cancelPendingEdits();
+    this.prompts = this.committedPrompts = config.weightedPrompts.map(({text, weight}) => {
+      const index = remaining.findIndex((p) => p.text === text);
+      const prompt = index >= 0 ? remaining.splice(index, 1)[0] : this.host.createPrompt(this, text);
+      return {...prompt, weight};
+    });
+    this.restartAnalysisIfPromptsChanged();
+    this.host.promptsSent(this);
+    this.host.requestUpdate();
+  }
+
+  private async handleMessage(message: LiveServerMessage) {
+    this.sessionRecorder?.recordMessage(message);
+    const audioPart = message.serverContent?.modelTurn?.parts?.[0];
+    const context = this.bus?.context;
+    if (audioPart?.inlineData?.data && context && this.playout && this.dvr) {
+      const audioBuffer = await decodeAudioData(
+        decode(audioPart.inlineData.data),
+        context,
+        OUTPUT_SAMPLE_RATE,
+        1,
+      );
+      // The deck may have stopped while decoding.
+      if (!this.dvr || !this.playout) return;
+      this.playout.recordArrival(audioBuffer.duration);
+      this.dvr.write(audioBuffer.getChannelData(0));
+      this.analyzer.push(audioBuffer.getChannelData(0));
+      this.lastChunkFrames = audioBuffer.length;
+      this.pump();
+    }
+
+    const interrupted = message.serverContent?.interrupted;
+    // Audio behind the live edge predates the interruption and stays
+    // playable; only drop what is pending at the live edge.
+    if (interrupted && this.dvr && this.playout && this.isLive) {
+      this.playout.flush();
+      this.dvr.seek(this.dvr.written);
+    }
+    this.host.requestUpdate();
+  }
+
+  private teardown() {
+    this.automationPlayer.stop();
+    // A new session starts from the current prompts anyway.
+    this.cancelPendingEdits();
+    this.committedPrompts = this.prompts;
+    this.cancelReconnect();
+    this.sessionGeneration++;
+    this.activeSource = null;
+    this.replayEnded = false;
+    if (this.pumpTimer !== null) {
+      clearInterval(this.pumpTimer);
+      this.pumpTimer = null;
+    }
+    this.playout?.flush();
+    this.playout = null;
+    this.dvr = null;
+    this.analyzer.reset();
+    this.gainNode?.disconnect();
+    this.faderNode?.disconnect();
+    this.gainNode = null;
+    this.faderNode = null;
+    this.bus = null;
+    this.sessionPromise = null;
+    this.finishSessionLog();
+    this.playbackState = 'stopped'; // Ensure state is 'stopped' after session closure
+    this.host.releaseAudio(this);
+    this.host.requestUpdate();
+  }
+
+  private reportError(error: AppError) {
+    this.host.reportError(error, `Deck ${this.id}`);
+  }
+
+  private startSessionLog(source: string) {
+    if (this.sessionLogUrl) {
+      URL.revokeObjectURL(this.sessionLogUrl);
+      this.sessionLogUrl = null;
+    }
+    this.sessionRecorder = new SessionRecorder(source, this.currentMusicConfig);
+  }
+
+  private finishSessionLog() {
+    if (!this.sessionRecorder) return;
+    if (this.sessionRecorder.eventCount > 0) {
+      this.sessionLogUrl = URL.createObjectURL(this.sessionRecorder.toBlob());
+    }
+    this.sessionRecorder = null;
+  }
+}
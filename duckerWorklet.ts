@@ -0,0 +1,80 @@
+/**
+ * @fileoverview AudioWorklet processor that follows the level of a sidechain
+ * input and outputs the gain that ducks the music under it.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Globals of the AudioWorkletGlobalScope, which lib.dom does not describe.
+declare const sampleRate: number;
+interface AudioParamDescriptor {
+  name: string;
+  defaultValue?: number;
+  minValue?: number;
+  maxValue?: number;
+  automationRate?: AutomationRate;
+}
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: (new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor) & {
+    parameterDescriptors?: AudioParamDescriptor[];
+  },
+): void;
+
+// How fast the level detector itself falls back, independent of release.
+const DETECTOR_RELEASE_SECONDS = 0.05;
+
+/** Smoothing coefficient of a one-pole filter with the given time constant. */
+function coefficient(seconds: number): number {
+  return seconds > 0 ? Math.exp(-1 / (seconds * sampleRate)) : 0;
+}
+
+/**
+ * Outputs one channel of gain values: 1 while the sidechain is below the
+ * threshold, `depth` dB less while it is above, moving between them with
+ * the attack and release times. With no sidechain connected it outputs 1.
+ */
+class DuckerProcessor extends AudioWorkletProcessor {
+  static parameterDescriptors: AudioParamDescriptor[] = [
+    {name: 'threshold', defaultValue: -40, minValue: -100, maxValue: 0, automationRate: 'k-rate'},
+    {name: 'depth', defaultValue: 12, minValue: 0, maxValue: 60, automationRate: 'k-rate'},
+    {name: 'attack', defaultValue: 0.02, minValue: 0, maxValue: 2, automationRate: 'k-rate'},
+    {name: 'release', defaultValue: 0.4, minValue: 0, maxValue: 5, automationRate: 'k-rate'},
+  ];
+
+  private level = 0;
+  private duck = 0;
+  private readonly detectorRelease = coefficient(DETECTOR_RELEASE_SECONDS);
+
+  process(
+    inputs: Float32Array[][],
+    outputs: Float32Array[][],
+    parameters: Record<string, Float32Array>,
+  ): boolean {
+    const channels = inputs[0] ?? [];
+    const output = outputs[0][0];
+    const threshold = Math.pow(10, parameters.threshold[0] / 20);
+    const floor = Math.pow(10, -parameters.depth[0] / 20);
+    const attack = coefficient(parameters.attack[0]);
+    const release = coefficient(parameters.release[0]);
+    for (let i = 0; i < output.length; i++) {
+      let peak = 0;
+      for (const channel of channels) {
+        peak = Math.max(peak, Math.abs(channel[i]));
+      }
+      // Peak detector: instant rise, short fall.
+      this.level = peak > this.level ? peak : this.detectorRelease * this.level;
+      const target = this.level > threshold ? 1 : 0;
+      const a = target > this.duck ? attack : release;
+      this.duck = a * this.duck + (1 - a) * target;
+      output[i] = 1 - this.duck * (1 - floor);
+    }
+    return true;
+  }
+}
+
+registerProcessor('ducker-processor', DuckerProcessor);
@@ -0,0 +1,88 @@
+/**
+ * @fileoverview Rolling buffer of received audio for time-shifted playback.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * A bounded ring of mono samples addressed by absolute frame positions. The
+ * writer appends everything the session delivers; a separate read head lags
+ * behind it while playback is paused or time-shifted. Once the ring is full
+ * the oldest audio is overwritten and a read head that falls off the end is
+ * moved forward to the oldest frame still held.
+ */
+export class DvrBuffer {
+  private readonly data: Float32Array;
+  private writePosition = 0;
+  private readPosition = 0;
+
+  constructor(
+    readonly sampleRate: number,
+    capacitySeconds: number,
+  ) {
+    this.data = new Float32Array(Math.round(sampleRate * capacitySeconds));
+  }
+
+  get capacity(): number {
+    return this.data.length;
+  }
+
+  /** Absolute position of the newest frame, i.e. the live edge. */
+  get written(): number {
+    return this.writePosition;
+  }
+
+  /** Absolute position of the oldest frame still held. */
+  get oldest(): number {
+    return Math.max(0, this.writePosition - this.data.length);
+  }
+
+  get position(): number {
+    return this.readPosition;
+  }
+
+  /** Frames between the read head and the live edge. */
+  get available(): number {
+    return this.writePosition - this.readPosition;
+  }
+
+  write(samples: Float32Array) {
+    // Only the newest `capacity` frames of an oversized write can be kept.
+    const input = samples.length > this.data.length ? samples.subarray(-this.data.length) : samples;
+    this.writePosition += samples.length - input.length;
+    let offset = 0;
+    while (offset < input.length) {
+      const index = this.writePosition % this.data.length;
+      const count = Math.min(input.length - offset, this.data.length - index);
+      this.data.set(input.subarray(offset, offset + count), index);
+      offset += count;
+      this.writePosition += count;
+    }
+    this.readPosition = Math.max(this.readPosition, this.oldest);
+  }
+
+  /** Reads up to `maxFrames` from the read head and advances it. */
+  read(maxFrames: number): Float32Array {
+    const count = Math.min(maxFrames, this.available);
+    const out = new Float32Array(count);
+    let offset = 0;
+    while (offset < count) {
+      const index = this.readPosition % this.data.length;
+      const run = Math.min(count - offset, this.data.length - index);
+      out.set(this.data.subarray(index, index + run), offset);
+      offset += run;
+      this.readPosition += run;
+    }
+    return out;
+  }
+
+  /** Moves the read head, clamped to the audio still held. */
+  seek(position: number) {
+    this.readPosition = Math.max(this.oldest, Math.min(this.writePosition, Math.round(position)));
+  }
+
+  reset() {
+    this.writePosition = 0;
+    this.readPosition = 0;
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * @fileoverview The master effects chain: DJ EQ, sweep filter, tempo-synced
+ * delay and convolution reverb, with per-effect bypass and a dry/wet mix.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type EqBand = 'low' | 'mid' | 'high';
+export const EQ_BANDS: EqBand[] = ['low', 'mid', 'high'];
+
+/** Note values for the synced delay, in beats. */
+export const DELAY_DIVISIONS = {
+  '1/16': 0.25,
+  '1/8': 0.5,
+  '3/16': 0.75,
+  '1/4': 1,
+  '3/8': 1.5,
+  '1/2': 2,
+  '1': 4,
+} as const;
+export type DelayDivision = keyof typeof DELAY_DIVISIONS;
+
+export interface EffectsSettings {
+  /** 0 is the dry signal only, 1 the processed signal only. */
+  mix: number;
+  eq: {
+    bypass: boolean;
+    /** Band gains in dB. */
+    gains: Record<EqBand, number>;
+    kills: Record<EqBand, boolean>;
+  };
+  filter: {
+    bypass: boolean;
+    /** -1 is a closed low-pass, 0 open, 1 a closed high-pass. */
+    position: number;
+    /** Filter Q. */
+    resonance: number;
+  };
+  delay: {
+    bypass: boolean;
+    sync: boolean;
+    division: DelayDivision;
+    /** Milliseconds, when not synced. */
+    time: number;
+    feedback: number;
+    /** Level of the echoes, 0 to 1. */
+    level: number;
+  };
+  reverb: {
+    bypass: boolean;
+    /** Seconds until the tail has decayed by 60 dB. */
+    decay: number;
+    level: number;
+  };
+}
+
+export const EQ_GAIN_RANGE = {min: -26, max: 6};
+export const MAX_DELAY_SECONDS = 4;
+
+export const DEFAULT_EFFECTS: EffectsSettings = {
+  mix: 1,
+  eq: {
+    bypass: false,
+    gains: {low: 0, mid: 0, high: 0},
+    kills: {low: false, mid: false, high: false},
+  },
+  filter: {bypass: false, position: 0, resonance: 1},
+  delay: {bypass: true, sync: true, division: '3/16', time: 375, feedback: 0.4, level: 0.4},
+  reverb: {bypass: true, decay: 2.5, level: 0.3},
+};
+
+// Crossover points of the EQ isolator.
+const LOW_CROSSOVER = 250;
+const HIGH_CROSSOVER = 2500;
+// Ends of the sweep filter range; the top is capped at Nyquist.
+const SWEEP_MIN = 60;
+const SWEEP_MAX = 20000;
+// Where the high-pass rests while open, below anything audible.
+const HIGHPASS_OPEN = 10;
+// Knob positions this close to the center leave the filter open.
+const SWEEP_DEAD_ZONE = 0.02;
+// Time constant for parameter changes, so knob moves don't click.
+const SMOOTHING = 0.02;
+
+/** Ramps a parameter towards `value` without clicks. */
+function glide(param: AudioParam, value: number, context: BaseAudioContext) {
+  param.setTargetAtTime(value, context.currentTime, SMOOTHING);
+}
+
+/** A Linkwitz-Riley style pair of identical 12 dB/oct filters. */
+function filterPair(context: BaseAudioContext, type: BiquadFilterType, frequency: number): [BiquadFilterNode, BiquadFilterNode] {
+  const first = new BiquadFilterNode(context, {type, frequency, Q: Math.SQRT1_2});
+  const second = new BiquadFilterNode(context, {type, frequency, Q: Math.SQRT1_2});
+  first.connect(second);
+  return [first, second];
+}
+
+/** Exponentially decaying stereo noise, a serviceable room impulse. */
+function createImpulse(context: BaseAudioContext, decay: number): AudioBuffer {
+  const length = Math.max(1, Math.round(decay * context.sampleRate));
+  const impulse = context.createBuffer(2, length, context.sampleRate);
+  for (let c = 0; c < 2; c++) {
+    const data = impulse.getChannelData(c);
+    for (let i = 0; i < length; i++) {
+      // -60 dB at the end of the impulse.
+      data[i] = (Math.random() * 2 - 1) * Math.pow(1000, -i / length);
+    }
+  }
+  return impulse;
+}
+
+/**
+ * One effect: audio flows from `input` to `output` either through the
+ * effect or, when bypassed, straight across.
+ */
+class Stage {
+  readonly input: GainNode;
+  readonly output: GainNode;
+  private bypassed: boolean | null = null;
+
+  constructor(
+    context: BaseAudioContext,
+    private readonly effectIn: AudioNode,
+    effectOut: AudioNode,
+  ) {
+    this.input = context.createGain();
+    this.output = context.createGain();
+    effectOut.connect(this.output);
+  }
+
+  setBypass(bypass: boolean) {
+    if (bypass === this.bypassed) return;
+    if (this.bypassed !== null) this.input.disconnect();
+    this.input.connect(bypass ? this.output : this.effectIn);
+    this.bypassed = bypass;
+  }
+}
+
+/**
+ * Master effects between the decks and the master gain. Connect the decks
+ * to `input` and `output` to the master gain; settings apply while running.
+ */
+export class EffectsRack {
+  readonly input: GainNode;
+  readonly output: GainNode;
+  private readonly dry: GainNode;
+  private readonly wet: GainNode;
+  private readonly bands: Record<EqBand, GainNode>;
+  private readonly lowpass: BiquadFilterNode;
+  private readonly highpass: BiquadFilterNode;
+  private readonly delay: DelayNode;
+  private readonly feedback: GainNode;
+  private readonly echoes: GainNode;
+  private readonly convolver: ConvolverNode;
+  private readonly reverbLevel: GainNode;
+  private readonly stages: {eq: Stage; filter: Stage; delay: Stage; reverb: Stage};
+  private settings: EffectsSettings = DEFAULT_EFFECTS;
+  private tempoBpm = 120;
+  private impulseDecay = 0;
+
+  constructor(private readonly context: BaseAudioContext) {
+    this.input = context.createGain();
+    this.output = context.createGain();
+    this.dry = context.createGain();
+    this.wet = context.createGain();
+
+    // EQ as an isolator: three bands split by crossovers and summed, so a
+    // killed band is really gone.
+    const eqIn = context.createGain();
+    const eqOut = context.createGain();
+    const [lowIn, lowOut] = filterPair(context, 'lowpass', LOW_CROSSOVER);
+    const [midHighPass, midLow] = filterPair(context, 'highpass', LOW_CROSSOVER);
+    const [midLowPass, midOut] = filterPair(context, 'lowpass', HIGH_CROSSOVER);
+    midLow.connect(midLowPass);
+    const [highIn, highOut] = filterPair(context, 'highpass', HIGH_CROSSOVER);
+    this.bands = {low: context.createGain(), mid: context.createGain(), high: context.createGain()};
+    eqIn.connect(lowIn);
+    eqIn.connect(midHighPass);
+    eqIn.connect(highIn);
+    lowOut.connect(this.bands.low);
+    midOut.connect(this.bands.mid);
+    highOut.connect(this.bands.high);
+    EQ_BANDS.forEach((band) => this.bands[band].connect(eqOut));
+
+    // The sweep uses a filter per side, so neither ever changes its type
+    // mid-glide; the unused one rests wide open.
+    this.lowpass = new BiquadFilterNode(context, {type: 'lowpass', frequency: SWEEP_MAX});
+    this.highpass = new BiquadFilterNode(context, {type: 'highpass', frequency: HIGHPASS_OPEN});
+    this.lowpass.connect(this.highpass);
+
+    // Delay with feedback; the stage passes the signal and adds the echoes.
+    const delayIn = context.createGain();
+    const delayOut = context.createGain();
+    this.delay = new DelayNode(context, {maxDelayTime: MAX_DELAY_SECONDS});
+    this.feedback = context.createGain();
+    this.echoes = context.createGain();
+    delayIn.connect(delayOut);
+    delayIn.connect(this.delay);
+    this.delay.connect(this.feedback);
+    this.feedback.connect(this.delay);
+    this.delay.connect(this.echoes);
+    this.echoes.connect(delayOut);
+
+    // Reverb adds the convolved tail to the signal the same way.
+    const reverbIn = context.createGain();
+    const reverbOut = context.createGain();
+    this.convolver = context.createConvolver();
+    this.reverbLevel = context.createGain();
+    reverbIn.connect(reverbOut);
+    reverbIn.connect(this.convolver);
+    this.convolver.connect(this.reverbLevel);
+    this.reverbLevel.connect(reverbOut);
+
+    this.stages = {
+      eq: new Stage(context, eqIn, eqOut),
+      filter: new Stage(context, this.lowpass, this.highpass),
+      delay: new Stage(context, delayIn, delayOut),
+      reverb: new Stage(context, reverbIn, reverbOut),
+    };
+    const {eq, filter, delay, reverb} = this.stages;
+    this.input.connect(this.dry);
+    this.input.connect(eq.input);
+    eq.output.connect(filter.input);
+    filter.output.connect(delay.input);
+    delay.output.connect(reverb.input);
+    reverb.output.connect(this.wet);
+    this.dry.connect(this.output);
+    this.wet.connect(this.output);
+
+    this.apply(DEFAULT_EFFECTS);
+  }
+
+  apply(settings: EffectsSettings) {
+    this.settings = settings;
+    const {context} = this;
+    const {mix, eq, filter, delay, reverb} = settings;
+
+    glide(this.dry.gain, 1 - mix, context);
+    glide(this.wet.gain, mix, context);
+
+    this.stages.eq.setBypass(eq.bypass);
+    for (const band of EQ_BANDS) {
+      glide(this.bands[band].gain, eq.kills[band] ? 0 : Math.pow(10, eq.gains[band] / 20), context);
+    }
+
+    this.stages.filter.setBypass(filter.bypass);
+    this.applySweep(filter.position, filter.resonance);
+
+    this.stages.delay.setBypass(delay.bypass);
+    glide(this.delay.delayTime, this.delaySeconds(), context);
+    glide(this.feedback.gain, Math.min(0.95, delay.feedback), context);
+    glide(this.echoes.gain, delay.level, context);
+
+    this.stages.reverb.setBypass(reverb.bypass);
+    if (reverb.decay !== this.impulseDecay) {
+      this.convolver.buffer = createImpulse(context, reverb.decay);
+      this.impulseDecay = reverb.decay;
+    }
+    glide(this.reverbLevel.gain, reverb.level, context);
+  }
+
+  /** Retimes a synced delay. */
+  setTempo(bpm: number) {
+    if (bpm === this.tempoBpm) return;
+    this.tempoBpm = bpm;
+    glide(this.delay.delayTime, this.delaySeconds(), this.context);
+  }
+
+  private delaySeconds(): number {
+    const {sync, division, time} = this.settings.delay;
+    const seconds = sync ? (DELAY_DIVISIONS[division] * 60) / this.tempoBpm : time / 1000;
+    return Math.min(MAX_DELAY_SECONDS, Math.max(0, seconds));
+  }
+
+  /**
+   * One knob: left closes the low-pass, right closes the high-pass. An open
+   * filter sits flat at the edge of the band, which unlike an all-pass
+   * doesn't shift the phase against the dry signal.
+   */
+  private applySweep(position: number, resonance: number) {
+    const amount = Math.min(1, Math.abs(position));
+    const max = Math.min(SWEEP_MAX, this.context.sampleRate / 2);
+    const ratio = max / SWEEP_MIN;
+    const active = amount >= SWEEP_DEAD_ZONE;
+    const lowpass = active && position < 0;
+    const highpass = active && position > 0;
+    glide(this.lowpass.frequency, lowpass ? max / Math.pow(ratio, amount) : max, this.context);
+    glide(this.lowpass.Q, lowpass ? resonance : Math.SQRT1_2, this.context);
+    glide(this.highpass.frequency, highpass ? SWEEP_MIN * Math.pow(ratio, amount) : HIGHPASS_OPEN, this.context);
+    glide(this.highpass.Q, highpass ? resonance : Math.SQRT1_2, this.context);
+  }
+
+  disconnect() {
+    this.input.disconnect();
+    this.output.disconnect();
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {css, html, LitElement} from 'lit';
+import {customElement, property} from 'lit/decorators.js';
+import {classMap} from 'lit/directives/class-map.js';
+import {map} from 'lit/directives/map.js';
+
+import {
+  DELAY_DIVISIONS,
+  type DelayDivision,
+  EQ_BANDS,
+  EQ_GAIN_RANGE,
+  type EffectsSettings,
+  MAX_DELAY_SECONDS,
+} from './effectsRack';
+
+type Effect = Exclude<keyof EffectsSettings, 'mix'>;
+
+const EFFECT_LABELS: Record<Effect, string> = {
+  eq: 'EQ',
+  filter: 'Filter',
+  delay: 'Delay',
+  reverb: 'Reverb',
+};
+
+// EffectsRackPanel component
+// -----------------------------------------------------------------------------
+/**
+ * Controls for the master effects rack. The settings belong to the host,
+ * which applies each `effects-change` to the rack.
+ */
+@customElement('effects-rack-panel')
+export class EffectsRackPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      gap: 10px;
+      flex-wrap: wrap;
+      justify-content: center;
+      color: #ccc;
+      font-size: 1.6vmin;
+    }
+    .effect {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      padding: 8px 10px;
+      border-radius: 6px;
+      background-color: #2a2a2a;
+      min-width: 140px;
+    }
+    .effect.bypassed > :not(.title) {
+      opacity: 0.4;
+    }
+    .title {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      gap: 8px;
+      color: #e0e0e0;
+      font-weight: bold;
+    }
+    label {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: 6px;
+    }
+    input[type='range'] {
+      width: 90px;
+    }
+    input[type='number'] {
+      width: 60px;
+    }
+    button,
+    select,
+    input[type='number'] {
+      padding: 2px 6px;
+      border: 1px solid #555;
+      border-radius: 6px;
+      background-color: #3a3a3a;
+      color: #e0e0e0;
+      font-size: inherit;
+    }
+    button {
+      cursor: pointer;
+    }
+    button.on {
+      background-color: #2af6de;
+      color: #111;
+    }
+    button.kill.on {
+      background-color: #ff25f6;
+      color: #fff;
+    }
+  `;
+
+  @property({attribute: false}) settings!: EffectsSettings;
+  @property({type: Number}) tempoBpm = 120;
+
+  private change<E extends Effect>(effect: E, changes: Partial<EffectsSettings[E]>) {
+    this.emit({...this.settings, [effect]: {...this.settings[effect], ...changes}});
+  }
+
+  private emit(settings: EffectsSettings) {
+    this.dispatchEvent(new CustomEvent<EffectsSettings>('effects-change', {detail: settings}));
+  }
+
+  private slider(
+    label: string,
+    value: number,
+    min: number,
+    max: number,
+    step: number,
+    onInput: (value: number) => void,
+    display = value.toFixed(step < 1 ? 2 : 0),
+    reset?: number,
+  ) {
+    return html`<label>
+      ${label}
+      <input
+        type="range"
+        min=${min}
+        max=${max}
+        step=${step}
+        .value=${value.toString()}
+        @input=${(e: Event) => onInput(parseFloat((e.target as HTMLInputElement).value))}
+        @dblclick=${() => reset !== undefined && onInput(reset)}
+        aria-label=${label}
+        title=${display}
+      />
+    </label>`;
+  }
+
+  private renderTitle(effect: Effect) {
+    const bypass = this.settings[effect].bypass;
+    return html`<div class="title">
+      ${EFFECT_LABELS[effect]}
+      <button
+        class=${classMap({on: !bypass})}
+        @click=${() => this.change(effect, {bypass: !bypass})}
+        aria-pressed=${!bypass}
+        aria-label="${EFFECT_LABELS[effect]} on"
+      >
+        ${bypass ? 'Off' : 'On'}
+      </button>
+    </div>`;
+  }
+
+  private renderEq() {
+    const {eq} = this.settings;
+    return html`<div class=${classMap({effect: true, bypassed: eq.bypass})}>
+      ${this.renderTitle('eq')}
+      ${map(
+        EQ_BANDS,
+        (band) => html`<label>
+          ${band[0].toUpperCase() + band.slice(1)}
+          <input
+            type="range"
+            min=${EQ_GAIN_RANGE.min}
+            max=${EQ_GAIN_RANGE.max}
+            step="0.5"
+            .value=${eq.gains[band].toString()}
+            @input=${(e: Event) =>
+              this.change('eq', {
+                gains: {...eq.gains, [band]: parseFloat((e.target as HTMLInputElement).value)},
+              })}
+            @dblclick=${() => this.change('eq', {gains: {...eq.gains, [band]: 0}})}
+            aria-label="${band} gain"
+            title="${eq.gains[band]} dB"
+          />
+          <button
+            class=${classMap({kill: true, on: eq.kills[band]})}
+            @click=${() => this.change('eq', {kills: {...eq.kills, [band]: !eq.kills[band]}})}
+            aria-pressed=${eq.kills[band]}
+            aria-label="Kill ${band}"
+          >
+            Kill
+          </button>
+        </label>`,
+      )}
+    </div>`;
+  }
+
+  private renderFilter() {
+    const {filter} = this.settings;
+    const side = filter.position < 0 ? 'LP' : filter.position > 0 ? 'HP' : 'Open';
+    return html`<div class=${classMap({effect: true, bypassed: filter.bypass})}>
+      ${this.renderTitle('filter')}
+      ${this.slider('Sweep', filter.position, -1, 1, 0.01, (position) => this.change('filter', {position}), side, 0)}
+      ${this.slider('Resonance', filter.resonance, 0.5, 15, 0.1, (resonance) => this.change('filter', {resonance}))}
+    </div>`;
+  }
+
+  private renderDelay() {
+    const {delay} = this.settings;
+    return html`<div class=${classMap({effect: true, bypassed: delay.bypass})}>
+      ${this.renderTitle('delay')}
+      <label>
+        <span>
+          <input
+            type="checkbox"
+            .checked=${delay.sync}
+            @change=${(e: Event) => this.change('delay', {sync: (e.target as HTMLInputElement).checked})}
+          />
+          Sync
+        </span>
+        ${delay.sync
+          ? html`<select
+              @change=${(e: Event) =>
+                this.change('delay', {division: (e.target as HTMLSelectElement).value as DelayDivision})}
+              aria-label="Delay note value"
+              title="${Math.round((DELAY_DIVISIONS[delay.division] * 60000) / this.tempoBpm)} ms at ${this.tempoBpm} BPM"
+            >
+              ${map(
+                Object.keys(DELAY_DIVISIONS),
+                (d) => html`<option value=${d} ?selected=${d === delay.division}>${d}</option>`,
+              )}
+            </select>`
+          : html`<input
+              type="number"
+              min="1"
+              max=${MAX_DELAY_SECONDS * 1000}
+              .value=${delay.time.toString()}
+              @change=${(e: Event) => {
+                const time = parseFloat((e.target as HTMLInputElement).value);
+                if (!Number.isNaN(time)) {
+                  this.change('delay', {time: Math.max(1, Math.min(MAX_DELAY_SECONDS * 1000, time))});
+                }
+              }}
+              aria-label="Delay time in milliseconds"
+            />`}
+      </label>
+      ${this.slider('Feedback', delay.feedback, 0, 0.95, 0.01, (feedback) => this.change('delay', {feedback}))}
+      ${this.slider('Level', delay.level, 0, 1, 0.01, (level) => this.change('delay', {level}))}
+    </div>`;
+  }
+
+  private renderReverb() {
+    const {reverb} = this.settings;
+    return html`<div class=${classMap({effect: true, bypassed: reverb.bypass})}>
+      ${this.renderTitle('reverb')}
+      <label>
+        Decay (s)
+        <input
+          type="number"
+          min="0.1"
+          max="10"
+          step="0.1"
+          .value=${reverb.decay.toString()}
+          @change=${(e: Event) => {
+            const decay = parseFloat((e.target as HTMLInputElement).value);
+            if (!Number.isNaN(decay)) this.change('reverb', {decay: Math.max(0.1, Math.min(10, decay))});
+          }}
+          aria-label="Reverb decay in seconds"
+        />
+      </label>
+      ${this.slider('Level', reverb.level, 0, 1, 0.01, (level) => this.change('reverb', {level}))}
+    </div>`;
+  }
+
+  override render() {
+    if (!this.settings) return html``;
+    return html`
+      ${this.renderEq()} ${this.renderFilter()} ${this.renderDelay()} ${this.renderReverb()}
+      <div class="effect">
+        <div class="title">Rack</div>
+        ${this.slider('Dry/wet', this.settings.mix, 0, 1, 0.01, (mix) => this.emit({...this.settings, mix}))}
+      </div>
+    `;
+  }
+}
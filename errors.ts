@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Typed application errors and the reports shown to the user.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type ErrorCategory =
+  | 'mic-permission'
+  | 'audio-context'
+  | 'session-connect'
+  | 'stream-error'
+  | 'encoder-load'
+  | 'encode-failure'
+  | 'file-import'
+  | 'midi-access'
+  | 'storage';
+
+interface CategoryInfo {
+  title: string;
+  /** Default user-facing message. */
+  message: string;
+  suggestion: string;
+}
+
+export const ERROR_CATEGORIES: Record<ErrorCategory, CategoryInfo> = {
+  'mic-permission': {
+    title: 'Microphone unavailable',
+    message: 'The microphone could not be opened.',
+    suggestion:
+      'Allow microphone access for this page in the browser settings and check that an input device is connected.',
+  },
+  'audio-context': {
+    title: 'Audio engine failed',
+    message: 'The browser could not start audio processing.',
+    suggestion: 'Reload the page. If it keeps failing, close other tabs that use audio or try another browser.',
+  },
+  'session-connect': {
+    title: 'Could not connect',
+    message: 'The music stream could not be opened.',
+    suggestion: 'Check the network connection and API key, or switch the deck to the offline synthetic source.',
+  },
+  'stream-error': {
+    title: 'Stream error',
+    message: 'The music stream reported an error.',
+    suggestion: 'Playback will try to reconnect. If it keeps dropping, check the network connection.',
+  },
+  'encoder-load': {
+    title: 'Encoder failed to load',
+    message: 'The audio encoder could not be loaded.',
+    suggestion:
+      'Reload the page, or use a browser with WebAssembly enabled. WAV exports do not need the encoder.',
+  },
+  'encode-failure': {
+    title: 'Encoding failed',
+    message: 'The recording could not be processed.',
+    suggestion: 'Try a shorter recording or another output format.',
+  },
+  'file-import': {
+    title: 'Import failed',
+    message: 'The file could not be read.',
+    suggestion: 'Check that the file was exported by this app and has not been edited by hand.',
+  },
+  'midi-access': {
+    title: 'MIDI unavailable',
+    message: 'MIDI devices could not be accessed.',
+    suggestion: 'Allow MIDI access for this page and use a browser that supports Web MIDI.',
+  },
+  storage: {
+    title: 'Storage failed',
+    message: 'The local library could not be updated.',
+    suggestion: 'Free up disk space or delete old takes, and make sure the browser allows site storage.',
+  },
+};
+
+/** An error tagged with a category; `cause` keeps the underlying error. */
+export class AppError extends Error {
+  constructor(
+    readonly category: ErrorCategory,
+    message = ERROR_CATEGORIES[category].message,
+    options?: {cause?: unknown},
+  ) {
+    super(message, options);
+    this.name = 'AppError';
+  }
+
+  get suggestion(): string {
+    return ERROR_CATEGORIES[this.category].suggestion;
+  }
+}
+
+/** Wraps anything thrown into an `AppError`, keeping existing categories. */
+export function toAppError(error: unknown, category: ErrorCategory, message?: string): AppError {
+  if (error instanceof AppError) return error;
+  return new AppError(category, message, {cause: error});
+}
+
+/** A plain-data record of an error, kept in the history and exported. */
+export interface ErrorReport {
+  id: string;
+  category: ErrorCategory;
+  title: string;
+  message: string;
+  suggestion: string;
+  /** Where the error happened, e.g. "Deck A". */
+  source: string;
+  /** Description of the underlying error, if any. */
+  detail: string;
+  /** ISO 8601 timestamp. */
+  time: string;
+}
+
+/** Describes an underlying error or event in one line plus its stack. */
+export function describeCause(cause: unknown): string {
+  if (cause === undefined || cause === null) return '';
+  if (cause instanceof Error) {
+    const nested = cause.cause !== undefined ? `\nCaused by: ${describeCause(cause.cause)}` : '';
+    return `${cause.name}: ${cause.message}${cause.stack ? `\n${cause.stack}` : ''}${nested}`;
+  }
+  if (typeof ErrorEvent !== 'undefined' && cause instanceof ErrorEvent) {
+    return `ErrorEvent: ${cause.message || '(no message)'}`;
+  }
+  if (typeof CloseEvent !== 'undefined' && cause instanceof CloseEvent) {
+    return `CloseEvent: code ${cause.code}${cause.reason ? `, ${cause.reason}` : ''}`;
+  }
+  if (typeof Event !== 'undefined' && cause instanceof Event) {
+    return `Event: ${cause.type}`;
+  }
+  return String(cause);
+}
+
+let nextReportId = 0;
+
+export function createErrorReport(error: AppError, source: string): ErrorReport {
+  const {title} = ERROR_CATEGORIES[error.category];
+  return {
+    id: `error-${Date.now()}-${nextReportId++}`,
+    category: error.category,
+    title,
+    message: error.message,
+    suggestion: error.suggestion,
+    source,
+    detail: describeCause(error.cause),
+    time: new Date().toISOString(),
+  };
+}
+
+/** Serializes the history for attaching to a bug report. */
+export function serializeErrorReports(reports: ErrorReport[]): Blob {
+  const data = {
+    exportedAt: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+    reports,
+  };
+  return new Blob([JSON.stringify(data, null, 2)], {type: 'application/json'});
+}
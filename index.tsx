@@ -11,44 +11,82 @@ import {classMap} from 'lit/directives/class-map.js';
 import {styleMap} from 'lit/directives/style-map.js';
 import {map} from 'lit/directives/map.js';
 
+import {throttle} from './utils';
+import {InputCapture} from './inputCapture';
 import {
-  GoogleGenAI,
-  // Fix: Corrected type from LiveSession to LiveClient
-  type LiveClient,
-  type LiveServerMessage,
-  Modality,
-} from '@google/genai';
-import {createBlob, decode, decodeAudioData} from './utils';
-import {FFmpeg} from '@ffmpeg/ffmpeg';
-import {fetchFile, toBlobURL} from '@ffmpeg/util';
-import type {Mutable} from 'utility-types'; // Import for FFmpeg types
-
-const ai = new GoogleGenAI({
-  apiKey: process.env.API_KEY,
-});
-// Using 'gemini-2.5-flash-native-audio-preview-09-2025' as it is a supported Live API model.
-// The model variable is kept for reference, but the string literal will be used directly in connect for clarity.
-const LIVE_MUSIC_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
-
-interface Prompt {
-  readonly promptId: string;
-  readonly color: string;
-  text: string;
-  weight: number;
-}
-
-// Defining WeightedPrompt interface based on expected structure
-interface WeightedPrompt {
-  text: string;
-  weight: number;
-}
-
-// Fix: Redefined LiveMusicGenerationConfig to match the expected object structure for `musicGenerationConfig` in Live API config.
-interface LiveMusicGenerationConfig {
-  weightedPrompts: WeightedPrompt[];
-}
+  INPUT_SOURCE_KINDS,
+  type InputSourceKind,
+  listInputDevices,
+  type OpenInput,
+  openDeviceInput,
+  openFileInput,
+} from './inputSource';
+import {
+  crossfaderGains,
+  type CrossfaderCurve,
+  Deck,
+  type DeckId,
+  type OutputBus,
+} from './deck';
+import {type MusicSourceKind, OUTPUT_SAMPLE_RATE} from './musicSource';
+import {parseSessionLog} from './sessionLog';
+import {INTERPOLATIONS, type Interpolation, type Keyframe} from './automation';
+import './automationLane';
+import {AppError, createErrorReport, type ErrorReport, toAppError} from './errors';
+import './notificationCenter';
+import {type MorphUnit, morphSeconds, type Scene} from './scenes';
+import {
+  type AppSet,
+  parseSetFile,
+  SET_FORMAT,
+  SET_VERSION,
+  serializeSet,
+  validateSet,
+} from './setFile';
+import {deleteTakes, loadState, loadTakes, saveState, saveTake} from './storage';
+import {
+  type EncoderMode,
+  MidiMapper,
+  type MidiMappings,
+  type MidiSource,
+  type MidiTarget,
+  type MidiTargetHandler,
+  parseTargetKey,
+} from './midiMapping';
+import type {Prompt} from './types';
+import type {FFmpeg} from '@ffmpeg/ffmpeg';
+import {
+  DEFAULT_EXPORT_SETTINGS,
+  encodeAudio,
+  EXPORT_FORMATS,
+  type ExportFormat,
+  type ExportSettings,
+  FLAC_COMPRESSION_LEVELS,
+  loadFfmpeg,
+  MP3_BITRATES,
+  OPUS_BITRATES,
+} from './audioExport';
+import {DEFAULT_EFFECTS, EffectsRack, type EffectsSettings} from './effectsRack';
+import './effectsRackPanel';
+import {DEFAULT_MASTERING, type LoudnessReading, Mastering, type MasteringSettings} from './mastering';
+import './masteringPanel';
+import './audioVisualizer';
+import type {VisualizerSettings} from './audioVisualizer';
+import {DEFAULT_DUCKING, type DuckingSettings, Talkover} from './talkover';
+import {mixdown, MultitrackRecorder, TRACK_LABELS, type TrackSource} from './multitrack';
+import type {RecordedAudio} from './pcmRecorder';
+import {applyEdit, editMetadata, type TakeEdit} from './takeEdit';
+import './takeEditor';
+import type {SplitTakeDetail} from './takeEditor';
+import {PromptTimeline, type TakeMetadata} from './takeMetadata';
+import {dominantPrompt, splitEdits} from './takeSplit';
+import {formatKey} from './streamAnalysis';
+import {QUANTIZE_OPTIONS, type Quantize, quantizePeriod, type QuantizeTempo} from './quantize';
+import './takeLibrary';
+import type {RenameTakeDetail} from './takeLibrary';
+import {createTake, decodeTake, type Take, takeBaseName, zipTakes} from './takes';
+import {WAV_SAMPLE_FORMATS, type WavSampleFormat} from './wavEncoder';
 
-type PlaybackState = 'stopped' | 'playing' | 'loading' | 'paused';
 type RecordingState =
   | 'idle'
   | 'initializing'
@@ -56,18 +94,18 @@ type RecordingState =
   | 'processing'
   | 'finished';
 
-/** Throttles a callback to be called at most once per `freq` milliseconds. */
-function throttle(func: (...args: unknown[]) => void, delay: number) {
-  let lastCall = 0;
-  return (...args: unknown[]) => {
-    const now = Date.now();
-    const timeSinceLastCall = now - lastCall;
-    if (timeSinceLastCall >= delay) {
-      func(...args);
-      lastCall = now;
-    }
-  };
-}
+const WAV_SAMPLE_FORMAT_LABELS: Record<WavSampleFormat, string> = {
+  pcm16: '16-bit',
+  pcm24: '24-bit',
+  float32: '32-bit float',
+};
+
+/** IndexedDB key of the automatically persisted set. */
+const SAVED_SET_KEY = 'current-set';
+/** IndexedDB key of the MIDI mappings, keyed by controller. */
+const MIDI_MAPPINGS_KEY = 'midi-mappings';
+// Oldest error reports are dropped beyond this.
+const MAX_ERROR_REPORTS = 100;
 
 const PROMPT_TEXT_PRESETS = [
   'Bossa Nova',
@@ -99,6 +137,9 @@ const COLORS = [
   '#d9b2ff',
 ];
 
+// Keeps prompt ids unique when several are created in the same millisecond.
+let nextPromptId = 0;
+
 function getUnusedRandomColor(usedColors: string[]): string {
   const availableColors = COLORS.filter((c) => !usedColors.includes(c));
   if (availableColors.length === 0) {
@@ -272,7 +313,7 @@ export class MusicLiveStreamApp extends LitElement {
       flex-direction: column;
       gap: 20px;
       width: 100%;
-      max-width: 900px;
+      max-width: 1200px;
       padding: 20px;
       border-radius: 12px;
       background-color: #282828;
@@ -379,6 +420,10 @@ export class MusicLiveStreamApp extends LitElement {
       white-space: nowrap;
     }
 
+    .preset-button.custom-preset {
+      border: 1px solid #3dffab;
+    }
+
     .preset-button:hover:not(:disabled) {
       background-color: #555;
       box-shadow: 0 2px 10px rgba(0, 0, 0, 0.3);
@@ -413,6 +458,7 @@ export class MusicLiveStreamApp extends LitElement {
 
     .prompt-item {
       display: flex;
+      flex-wrap: wrap;
       align-items: stretch; /* Make children stretch to full height */
       gap: 10px;
       padding: 8px;
@@ -468,6 +514,294 @@ export class MusicLiveStreamApp extends LitElement {
       flex-shrink: 0;
     }
 
+    automation-lane {
+      flex-basis: 100%;
+    }
+
+    .automation-controls {
+      display: flex;
+      gap: 10px;
+      align-items: center;
+      flex-wrap: wrap;
+      color: #ccc;
+      font-size: 1.5vmin;
+    }
+
+    .automation-controls label {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+    }
+
+    .automation-controls input[type='number'] {
+      width: 60px;
+    }
+
+    .automation-controls input[type='number'],
+    .automation-controls select {
+      padding: 4px 6px;
+      border: 1px solid #555;
+      border-radius: 6px;
+      background-color: #3a3a3a;
+      color: #e0e0e0;
+    }
+
+    .automation-controls .automation-time {
+      font-variant-numeric: tabular-nums;
+      color: #2af6de;
+    }
+
+    .scenes-area {
+      display: flex;
+      flex-direction: column;
+      gap: 10px;
+    }
+
+    .scene-controls {
+      display: flex;
+      gap: 10px;
+      align-items: center;
+      flex-wrap: wrap;
+      color: #ccc;
+      font-size: 1.6vmin;
+    }
+
+    .scene-controls label {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+    }
+
+    .scene-controls input,
+    .scene-controls select {
+      padding: 6px 10px;
+      border: 1px solid #555;
+      border-radius: 6px;
+      background-color: #3a3a3a;
+      color: #e0e0e0;
+      font-size: 1.6vmin;
+    }
+
+    .scene-controls input[type='number'] {
+      width: 60px;
+    }
+
+    .morph-progress {
+      color: #2af6de;
+    }
+
+    .pending-edits {
+      color: #2af6de;
+      font-size: 1.5vmin;
+      font-variant-numeric: tabular-nums;
+    }
+
+    .scene-list {
+      display: flex;
+      gap: 10px;
+      flex-wrap: wrap;
+    }
+
+    .scene-item {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+    }
+
+    .scene-swatch {
+      display: inline-block;
+      width: 8px;
+      height: 8px;
+      border-radius: 50%;
+    }
+
+    .midi-area {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      color: #ccc;
+      font-size: 1.6vmin;
+    }
+
+    .midi-header {
+      display: flex;
+      gap: 10px;
+      align-items: center;
+    }
+
+    .midi-learn-button.active {
+      background-color: #ffdd28;
+      color: #1a1a1a;
+    }
+
+    .midi-controller {
+      color: #2af6de;
+      margin-top: 4px;
+    }
+
+    .midi-mapping {
+      display: flex;
+      gap: 10px;
+      align-items: center;
+    }
+
+    .midi-mapping select {
+      padding: 4px 6px;
+      border: 1px solid #555;
+      border-radius: 6px;
+      background-color: #3a3a3a;
+      color: #e0e0e0;
+    }
+
+    .midi-learn [data-midi-target] {
+      outline: 2px dashed #ffdd28;
+      outline-offset: 2px;
+    }
+
+    .midi-learn [data-midi-target].midi-pending {
+      outline: 2px solid #ff25f6;
+    }
+
+    .decks {
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 15px;
+    }
+
+    .deck {
+      display: flex;
+      flex-direction: column;
+      gap: 10px;
+      padding: 12px;
+      border: 1px solid #444;
+      border-radius: 10px;
+      background-color: #222;
+    }
+
+    .deck.deck-active {
+      border-color: #3dffab;
+      box-shadow: 0 0 10px rgba(61, 255, 171, 0.25);
+    }
+
+    .deck-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      gap: 10px;
+    }
+
+    .deck-title {
+      background-color: #444;
+      color: #e0e0e0;
+      padding: 8px 15px;
+    }
+
+    .deck.deck-active .deck-title {
+      background-color: #3dffab;
+      color: #1a1a1a;
+    }
+
+    .deck-transport {
+      display: flex;
+      gap: 10px;
+      align-items: center;
+      flex-wrap: wrap;
+    }
+
+    .deck-gain {
+      width: 100px;
+    }
+
+    .deck-stats {
+      display: flex;
+      gap: 10px;
+      align-items: center;
+      flex-wrap: wrap;
+      color: #ccc;
+      font-size: 1.5vmin;
+      font-variant-numeric: tabular-nums;
+    }
+
+    .deck-stats .analysis small {
+      color: #888;
+    }
+
+    .deck-stats label {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+    }
+
+    .deck-stats input {
+      width: 60px;
+      padding: 4px 6px;
+      border: 1px solid #555;
+      border-radius: 6px;
+      background-color: #3a3a3a;
+      color: #e0e0e0;
+    }
+
+    .underruns.has-underruns {
+      color: #ff7f50;
+    }
+
+    .live-indicator {
+      min-width: 50px;
+      text-align: center;
+      font-size: 1.5vmin;
+      font-variant-numeric: tabular-nums;
+      color: #ff7f50;
+    }
+
+    .live-indicator.is-live {
+      color: #3dffab;
+      font-weight: bold;
+    }
+
+    .mixer-area {
+      display: flex;
+      gap: 10px;
+      justify-content: center;
+      align-items: center;
+      color: #ccc;
+      font-size: 1.6vmin;
+    }
+
+    #crossfader {
+      width: 40%;
+    }
+
+    .mixer-area select {
+      padding: 6px 10px;
+      border: 1px solid #555;
+      border-radius: 6px;
+      background-color: #3a3a3a;
+      color: #e0e0e0;
+      font-size: 1.6vmin;
+    }
+
+    .export-format {
+      display: flex;
+      gap: 6px;
+    }
+
+    .export-format label {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+      color: #ccc;
+      font-size: 1.6vmin;
+    }
+
+    .export-format select {
+      padding: 6px 10px;
+      border: 1px solid #555;
+      border-radius: 6px;
+      background-color: #3a3a3a;
+      color: #e0e0e0;
+      font-size: 1.6vmin;
+    }
+
     .controls-area {
       display: flex;
       gap: 15px;
@@ -536,23 +870,22 @@ export class MusicLiveStreamApp extends LitElement {
       }
     }
 
-    .download-link {
-      display: block;
-      margin-top: 20px;
-      text-align: center;
-      color: #ffdd28;
-      text-decoration: none;
-      font-size: 1.8vmin;
-      padding: 10px 20px;
-      border: 1px solid #ffdd28;
-      border-radius: 8px;
-      transition: background-color 0.3s ease, color 0.3s ease;
+    .take-library-area {
+      padding-top: 15px;
+      border-top: 1px solid #444;
     }
 
-    .download-link:hover {
-      background-color: #ffdd28;
-      color: #1a1a1a;
-      box-shadow: 0 0 15px rgba(255, 221, 40, 0.5);
+    .take-library-area h2 {
+      margin: 0 0 10px;
+      font-size: 2vmin;
+      color: #ccc;
+    }
+
+    .take-library-area take-editor {
+      margin-top: 12px;
+      padding: 10px;
+      border-radius: 6px;
+      background-color: #2a2a2a;
     }
 
     /* Volume Slider Styles */
@@ -596,75 +929,425 @@ export class MusicLiveStreamApp extends LitElement {
       box-shadow: 0 0 5px rgba(0, 0, 0, 0.5);
     }
 
-    #volume-slider::-moz-range-thumb {
-      width: 20px;
-      height: 20px;
-      border-radius: 50%;
-      background: #4CAF50;
-      cursor: pointer;
-      box-shadow: 0 0 5px rgba(0, 0, 0, 0.5);
+    .effects-area,
+    .mastering-area,
+    .visualizer-area {
+      padding-top: 10px;
+      border-top: 1px solid #444;
     }
-  `;
 
-  @property({type: String}) currentPromptInput: string = '';
-  @state() prompts: Prompt[] = [];
-  @state() playbackState: PlaybackState = 'stopped';
-  @state() recordingState: RecordingState = 'idle';
-  @state() recordedAudioUrl: string | null = null;
-  @state() private outputVolume: number = 0.5; // New state for volume
+    .input-source-area,
+    .talkover-area {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 10px;
+      justify-content: center;
+      align-items: center;
+      color: #ccc;
+      font-size: 1.6vmin;
+    }
 
-  // Audio Contexts and Nodes
-  @state() private inputAudioContext: AudioContext | null = null;
-  @state() private outputAudioContext: AudioContext | null = null;
-  @state() private outputGainNode: GainNode | null = null;
-  private nextStartTime = 0;
-  private sources = new Set<AudioBufferSourceNode>();
-  private mediaStream: MediaStream | null = null;
-  private scriptProcessor: ScriptProcessorNode | null = null;
-  // Fix: Corrected type from LiveSession to LiveClient
-  private sessionPromise: Promise<LiveClient> | null = null;
-
-  private mediaRecorder: MediaRecorder | null = null;
-  private recordedChunks: Blob[] = [];
-  private ffmpeg: FFmpeg | null = null;
+    .input-source-area label,
+    .talkover-area label {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      cursor: pointer;
+    }
+
+    .input-source-area select,
+    .talkover-area select,
+    .talkover-area input[type='number'] {
+      padding: 6px 10px;
+      border: 1px solid #555;
+      border-radius: 6px;
+      background-color: #3a3a3a;
+      color: #e0e0e0;
+      font-size: 1.6vmin;
+    }
+
+    .input-source-area input[type='file'] {
+      display: none;
+    }
+
+    .talkover-area input[type='number'] {
+      width: 60px;
+    }
+
+    .talkover-area .talkover-active {
+      background-color: #ff25f6;
+      color: #fff;
+    }
+
+    .session-log-area {
+      display: flex;
+      gap: 15px;
+      justify-content: center;
+      align-items: center;
+      flex-wrap: wrap;
+      color: #ccc;
+      font-size: 1.6vmin;
+    }
+
+    .session-log-area label {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      cursor: pointer;
+    }
+
+    .session-log-area input[type='file'] {
+      display: none;
+    }
+
+    .session-log-area .replay-name {
+      color: #2af6de;
+    }
+
+    .session-log-area a {
+      color: #ffdd28;
+    }
+
+    #volume-slider::-moz-range-thumb {
+      width: 20px;
+      height: 20px;
+      border-radius: 50%;
+      background: #4CAF50;
+      cursor: pointer;
+      box-shadow: 0 0 5px rgba(0, 0, 0, 0.5);
+    }
+
+    .source-control {
+      display: flex;
+      align-items: center;
+      gap: 10px;
+      color: #ccc;
+      font-size: 1.6vmin;
+    }
+
+    .source-control select {
+      padding: 6px 10px;
+      border: 1px solid #555;
+      border-radius: 6px;
+      background-color: #3a3a3a;
+      color: #e0e0e0;
+      font-size: 1.6vmin;
+    }
+  `;
+
+  @property({type: String}) currentPromptInput: string = '';
+  @state() recordingState: RecordingState = 'idle';
+  @state() private takes: Take[] = [];
+  @state() private editingTake: Take | null = null;
+  @state() private editingAudio: RecordedAudio | null = null;
+  @state() private editorBusy = false;
+  @state() private exportSettings: ExportSettings = {...DEFAULT_EXPORT_SETTINGS};
+  /** Records the steering input as its own track next to the output. */
+  @state() private multitrackEnabled = false;
+  /** Also exports output and input summed, when recording multitrack. */
+  @state() private mixdownEnabled = true;
+  @state() private outputVolume: number = 0.5; // New state for volume
+  @state() sessionLogEnabled = false;
+
+  // Decks and mixer
+  readonly decks: Record<DeckId, Deck> = {
+    A: new Deck(this, 'A'),
+    B: new Deck(this, 'B'),
+  };
+  @state() private activeDeckId: DeckId = 'A';
+  @state() private crossfader = 0.5; // 0 is full deck A, 1 is full deck B
+  @state() private crossfaderCurve: CrossfaderCurve = 'equal-power';
+  @state() private tempoBpm = 120;
+  /** Holds prompt edits until the next boundary of this grid. */
+  @state() private quantize: Quantize = 'off';
+  @state() private quantizeTempo: QuantizeTempo = 'set';
+
+  // Scenes
+  @state() private scenes: Scene[] = [];
+  @state() private sceneNameInput = '';
+  @state() private morphLength = 4;
+  @state() private morphUnit: MorphUnit = 'bars';
+
+  // Persistence
+  @state() private customPresets: string[] = [];
+  private savedSetRestored = false;
+  private lastSavedSet = '';
+
+  // MIDI
+  @state() private midiEnabled = false;
+  @state() private midiLearnActive = false;
+  @state() private midiMappings: MidiMappings = {};
+  @state() private midiControllers: string[] = [];
+  private midiMapper: MidiMapper | null = null;
+  private midiPendingElement: Element | null = null;
+
+  // Audio Contexts and Nodes
+  @state() private inputAudioContext: AudioContext | null = null;
+  @state() private outputAudioContext: AudioContext | null = null;
+  @state() private outputGainNode: GainNode | null = null;
+  /** Master effects, between the decks and the master gain. */
+  private effectsRack: EffectsRack | null = null;
+  @state() private effects: EffectsSettings = DEFAULT_EFFECTS;
+  /** Limiter, auto-gain and loudness meter, last before the speakers. */
+  private mastering: Mastering | null = null;
+  @state() private masteringSettings: MasteringSettings = {...DEFAULT_MASTERING};
+  @state() private loudness: LoudnessReading | null = null;
+  /** Taps what reaches the speakers for the visualizer. */
+  @state() private analyserNode: AnalyserNode | null = null;
+  @state() private visualizer: VisualizerSettings = {mode: 'spectrum', fps: 30};
+  /** Ducks the music under talkover, after the volume. */
+  private duckGainNode: GainNode | null = null;
+  /** Ducked music plus talkover, before the limiter. */
+  private programGainNode: GainNode | null = null;
+  private capture: InputCapture | null = null;
+  private inputCapture: Promise<void> | null = null;
+
+  // Steering input, switchable while sessions run
+  @state() private inputSourceKind: InputSourceKind = 'device';
+  /** Empty for the system default device. */
+  @state() private inputDeviceId = '';
+  @state() private inputDevices: MediaDeviceInfo[] = [];
+  @state() private inputFileName = '';
+  private inputFile: File | null = null;
+  private inputFileBuffer: AudioBuffer | null = null;
+  private openInput: OpenInput | null = null;
+  private inputGeneration = 0;
+
+  // Talkover mic with ducking of the music
+  @state() private talkoverEnabled = false;
+  /** Empty for the system default device. */
+  @state() private talkoverDeviceId = '';
+  @state() private ducking: DuckingSettings = {...DEFAULT_DUCKING};
+  /** Records the program, with talkover and ducking, instead of the music alone. */
+  @state() private recordTalkover = true;
+  /** Limits the music alone for takes that leave out the talkover. */
+  private recordingMastering: {mastering: Mastering; source: AudioNode} | null = null;
+  private talkover: Talkover | null = null;
+  private talkoverGeneration = 0;
+
+  // Error history shown by the notification center
+  @state() private errorReports: ErrorReport[] = [];
+
+  private recorder: MultitrackRecorder | null = null;
+  private promptTimeline: PromptTimeline | null = null;
+  private ffmpeg: FFmpeg | null = null;
 
   connectedCallback() {
     super.connectedCallback();
     this.initializeAudioContexts();
+    this.applyCrossfader();
+    this.restoreSavedSet();
+    this.restoreTakes();
+    this.refreshInputDevices();
+    navigator.mediaDevices?.addEventListener('devicechange', this.refreshInputDevices);
+  }
+
+  override updated() {
+    this.effectsRack?.setTempo(this.tempoBpm);
+    this.persistSet();
   }
 
   disconnectedCallback() {
+    // When component is removed, each deck stops its session, which releases
+    // the shared audio resources once the last one is down.
     super.disconnectedCallback();
-    // When component is removed, ensure all resources are cleaned.
-    // This calls cleanupAudioResources and nulls sessionPromise if it exists.
-    this.stopPlayback(); 
+    navigator.mediaDevices?.removeEventListener('devicechange', this.refreshInputDevices);
+    this.midiMapper?.dispose();
+    this.midiMapper = null;
+  }
+
+  private get deckList(): Deck[] {
+    return [this.decks.A, this.decks.B];
+  }
+
+  private get activeDeck(): Deck {
+    return this.decks[this.activeDeckId];
   }
 
   private initializeAudioContexts() {
     // Only re-initialize if contexts are null or closed
     // Fix: Removed webkitAudioContext as it's deprecated and AudioContext is universally supported.
     if (!this.inputAudioContext || this.inputAudioContext.state === 'closed') {
-      this.inputAudioContext = new (window.AudioContext)({sampleRate: 16000});
+      // Runs at the device rate; the capture worklet resamples to 16 kHz.
+      this.inputAudioContext = new (window.AudioContext)();
     }
     // Fix: Removed webkitAudioContext as it's deprecated and AudioContext is universally supported.
     if (!this.outputAudioContext || this.outputAudioContext.state === 'closed') {
-      this.outputAudioContext = new (window.AudioContext)({sampleRate: 24000});
+      this.outputAudioContext = new (window.AudioContext)({sampleRate: OUTPUT_SAMPLE_RATE});
       this.outputGainNode = this.outputAudioContext.createGain();
-      this.outputGainNode.connect(this.outputAudioContext.destination);
+      this.effectsRack = new EffectsRack(this.outputAudioContext);
+      this.effectsRack.apply(this.effects);
+      this.effectsRack.setTempo(this.tempoBpm);
+      this.effectsRack.output.connect(this.outputGainNode);
+      this.duckGainNode = this.outputAudioContext.createGain();
+      this.programGainNode = this.outputAudioContext.createGain();
+      this.outputGainNode.connect(this.duckGainNode);
+      this.duckGainNode.connect(this.programGainNode);
+      this.programGainNode.connect(this.outputAudioContext.destination);
+      this.analyserNode = this.outputAudioContext.createAnalyser();
+      this.analyserNode.fftSize = 2048;
+      this.programGainNode.connect(this.analyserNode);
       this.outputGainNode.gain.value = this.outputVolume; // Set initial volume
+      this.startMastering(this.outputAudioContext, this.programGainNode, this.analyserNode);
     }
   }
 
-  private cleanupAudioResources() {
-    if (this.mediaStream) {
-      this.mediaStream.getTracks().forEach(track => track.stop());
-      this.mediaStream = null;
+  async acquireAudio(deck: Deck): Promise<OutputBus | null> {
+    try {
+      this.initializeAudioContexts(); // Ensure contexts are initialized/re-initialized
+    } catch (error) {
+      throw new AppError('audio-context', undefined, {cause: error});
+    }
+    if (!this.inputAudioContext || !this.outputAudioContext || !this.effectsRack) {
+      return null;
+    }
+    await this.startInputCapture();
+    return {context: this.outputAudioContext, destination: this.effectsRack.input};
+  }
+
+  releaseAudio(deck: Deck) {
+    // The contexts are shared, so keep them while the other deck is running.
+    if (this.deckList.some((d) => d.isActive)) {
+      return;
+    }
+    this.cleanupAudioResources();
+  }
+
+  /** Starts input capture once and fans it out to every live deck. */
+  private startInputCapture(): Promise<void> {
+    this.inputCapture ??= this.openInputCapture().catch((error) => {
+      this.inputCapture = null;
+      throw error;
+    });
+    return this.inputCapture;
+  }
+
+  private async openInputCapture() {
+    if (!this.inputAudioContext) {
+      throw new AppError('audio-context', 'Input audio context not available.');
     }
-    if (this.scriptProcessor) {
-      this.scriptProcessor.disconnect();
-      this.scriptProcessor.onaudioprocess = null;
-      this.scriptProcessor = null;
+    try {
+      this.capture = await InputCapture.start(this.inputAudioContext, (pcmBlob) => {
+        for (const deck of this.deckList) {
+          deck.sendMedia(pcmBlob);
+        }
+      });
+    } catch (error) {
+      throw new AppError('audio-context', 'Input capture could not be started.', {cause: error});
     }
+    await this.applyInputSource();
+  }
+
+  /**
+   * Connects the chosen input to the running capture. The sessions stay
+   * connected; if the input can't be opened, they are steered by text alone.
+   */
+  private async applyInputSource() {
+    const capture = this.capture;
+    const context = this.inputAudioContext;
+    if (!capture || !context) return;
+    const generation = ++this.inputGeneration;
+    capture.setSource(null);
+    this.openInput?.close();
+    this.openInput = null;
+    const kind = this.inputSourceKind;
+    let input: OpenInput | null = null;
+    try {
+      if (kind === 'device') {
+        input = await openDeviceInput(context, this.inputDeviceId);
+      } else if (kind === 'file' && this.inputFile) {
+        this.inputFileBuffer ??= await context.decodeAudioData(await this.inputFile.arrayBuffer());
+        input = openFileInput(context, this.inputFileBuffer);
+      }
+    } catch (error) {
+      this.reportError(
+        toAppError(error, kind === 'file' ? 'file-import' : 'mic-permission'),
+        'Input',
+      );
+      return;
+    }
+    // Another switch, or a shutdown, happened while this one was opening.
+    if (generation !== this.inputGeneration || this.capture !== capture) {
+      input?.close();
+      return;
+    }
+    this.openInput = input;
+    capture.setSource(input?.node ?? null);
+    if (kind === 'device') {
+      // Device names become available once access was granted.
+      this.refreshInputDevices();
+    }
+  }
+
+  private refreshInputDevices = async () => {
+    try {
+      this.inputDevices = await listInputDevices();
+    } catch (error) {
+      console.warn('Could not list input devices:', error);
+    }
+  };
+
+  private selectInput(value: string) {
+    if (value.startsWith('device:')) {
+      this.inputSourceKind = 'device';
+      this.inputDeviceId = value.slice('device:'.length);
+    } else {
+      this.inputSourceKind = value as InputSourceKind;
+    }
+    this.applyInputSource();
+  }
+
+  private handleInputFileChange(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+    this.inputFile = file;
+    this.inputFileBuffer = null;
+    this.inputFileName = file.name;
+    this.inputSourceKind = 'file';
+    this.applyInputSource();
+  }
+
+  quantizePeriod(deck: Deck): number | null {
+    // Until a tempo is detected with some confidence, the set tempo stands in.
+    const bpm = this.quantizeTempo === 'detected' ? (deck.gridTempo?.bpm ?? this.tempoBpm) : this.tempoBpm;
+    return quantizePeriod(this.quantize, bpm);
+  }
+
+  private setQuantize(quantize: Quantize) {
+    this.quantize = quantize;
+    if (quantize === 'off') {
+      this.deckList.forEach((deck) => deck.flushPendingEdits());
+    }
+  }
+
+  promptsSent(deck: Deck) {
+    if (deck.isActive) {
+      this.promptTimeline?.record(deck.id, deck.currentMusicConfig.weightedPrompts);
+    }
+  }
+
+  reportError(error: AppError, source = 'App') {
+    console.error(`${source}: ${error.message}`, error.cause ?? error);
+    this.errorReports = [...this.errorReports, createErrorReport(error, source)].slice(
+      -MAX_ERROR_REPORTS,
+    );
+  }
+
+  private dismissErrorReport(id: string) {
+    this.errorReports = this.errorReports.filter((r) => r.id !== id);
+  }
+
+  private cleanupAudioResources() {
+    this.setTalkover(false);
+    if (this.capture) {
+      this.capture.stop();
+      this.capture = null;
+    }
+    this.openInput?.close();
+    this.openInput = null;
+    this.inputCapture = null;
     // Only close contexts if they are not already closed
     if (this.inputAudioContext && this.inputAudioContext.state !== 'closed') {
       this.inputAudioContext.close().catch(console.error);
@@ -674,66 +1357,138 @@ export class MusicLiveStreamApp extends LitElement {
       this.outputAudioContext.close().catch(console.error);
       this.outputAudioContext = null; // Clear reference after closing
       this.outputGainNode = null;
+      this.effectsRack = null;
+      this.mastering?.stop();
+      this.mastering = null;
+      this.loudness = null;
+      this.duckGainNode = null;
+      this.programGainNode = null;
+      this.analyserNode = null;
+    }
+  }
+
+  /** Opens or closes the talkover mic; failures leave it off. */
+  private async setTalkover(enabled: boolean) {
+    const generation = ++this.talkoverGeneration;
+    this.talkover?.stop();
+    this.talkover = null;
+    this.talkoverEnabled = enabled;
+    if (!enabled) return;
+    try {
+      this.initializeAudioContexts();
+    } catch (error) {
+      this.reportError(new AppError('audio-context', undefined, {cause: error}), 'Talkover');
+      this.talkoverEnabled = false;
+      return;
     }
-    for (const source of this.sources.values()) {
-        source.stop();
+    const context = this.outputAudioContext;
+    if (!context || !this.duckGainNode || !this.programGainNode) return;
+    try {
+      await context.resume();
+      const talkover = await Talkover.start(
+        context,
+        this.talkoverDeviceId,
+        this.duckGainNode,
+        this.programGainNode,
+        this.ducking,
+      );
+      // Turned off, or switched to another device, while opening.
+      if (generation !== this.talkoverGeneration) {
+        talkover.stop();
+        return;
+      }
+      this.talkover = talkover;
+    } catch (error) {
+      if (generation !== this.talkoverGeneration) return;
+      this.reportError(toAppError(error, 'mic-permission'), 'Talkover');
+      this.talkoverEnabled = false;
     }
-    this.sources.clear();
-    this.nextStartTime = 0;
-    // Removed session.close() call from here. It should be handled by onclose/onerror or stopPlayback.
   }
 
-  // Fix: Adjusted the return type of currentMusicConfig and its implementation to match the new LiveMusicGenerationConfig interface.
-  private get currentMusicConfig(): LiveMusicGenerationConfig {
-    const weightedPrompts = this.prompts.map((p) => ({
-      text: p.text,
-      weight: p.weight,
-    }));
-    if (weightedPrompts.length === 0) {
-      return {weightedPrompts: [{text: 'ambient pads', weight: 0.7}]};
+  /**
+   * Loads the limiter and meter, then inserts the limiter last, after the
+   * volume and talkover, so it meters and limits what reaches the speakers.
+   * Until then, and if it fails, audio bypasses it.
+   */
+  private async startMastering(context: AudioContext, program: GainNode, analyser: AnalyserNode) {
+    try {
+      const mastering = await Mastering.start(context, (reading) => (this.loudness = reading));
+      if (this.outputAudioContext !== context) {
+        mastering.stop();
+        return;
+      }
+      mastering.apply(this.masteringSettings);
+      // Takes started from now on record the limiter output too.
+      program.disconnect(context.destination);
+      program.disconnect(analyser);
+      program.connect(mastering.node);
+      mastering.node.connect(context.destination);
+      mastering.node.connect(analyser);
+      this.mastering = mastering;
+    } catch (error) {
+      this.reportError(
+        toAppError(error, 'audio-context', 'The limiter and loudness meter could not be started.'),
+        'Mastering',
+      );
     }
-    return {weightedPrompts: weightedPrompts};
   }
 
-  private addPrompt() {
-    const text = this.currentPromptInput.trim();
-    if (text === '') {
-      return;
+  private updateMastering(settings: MasteringSettings) {
+    this.masteringSettings = settings;
+    this.mastering?.apply(settings);
+    this.recordingMastering?.mastering.apply(settings);
+  }
+
+  private updateEffects(settings: EffectsSettings) {
+    this.effects = settings;
+    this.effectsRack?.apply(settings);
+  }
+
+  private updateDucking(changes: Partial<DuckingSettings>) {
+    this.ducking = {...this.ducking, ...changes};
+    this.talkover?.setDucking(this.ducking);
+  }
+
+  private selectTalkoverDevice(deviceId: string) {
+    this.talkoverDeviceId = deviceId;
+    if (this.talkoverEnabled) {
+      this.setTalkover(true);
     }
-    const usedColors = this.prompts.map((p) => p.color);
-    const newPrompt: Prompt = {
-      promptId: `prompt-${Date.now()}`,
+  }
+
+  createPrompt(deck: Deck, text: string): Prompt {
+    const usedColors = deck.prompts.map((p) => p.color);
+    return {
+      promptId: `prompt-${Date.now()}-${nextPromptId++}`,
       text: text,
       weight: 1.0,
       color: getUnusedRandomColor(usedColors),
     };
-    this.prompts = [...this.prompts, newPrompt];
+  }
+
+  private addPrompt() {
+    const text = this.currentPromptInput.trim();
+    if (text === '') {
+      return;
+    }
+    this.activeDeck.addPrompt(this.createPrompt(this.activeDeck, text));
     this.currentPromptInput = '';
-    this.sendPromptUpdate();
   }
 
   private addPresetPrompt(presetText: string) {
-    const usedColors = this.prompts.map((p) => p.color);
-    const newPrompt: Prompt = {
-      promptId: `prompt-${Date.now()}`,
-      text: presetText,
-      weight: 1.0,
-      color: getUnusedRandomColor(usedColors),
-    };
-    this.prompts = [...this.prompts, newPrompt];
-    this.sendPromptUpdate();
+    this.activeDeck.addPrompt(this.createPrompt(this.activeDeck, presetText));
   }
 
-  private removePrompt(promptId: string) {
-    this.prompts = this.prompts.filter((p) => p.promptId !== promptId);
-    this.sendPromptUpdate();
+  private saveCustomPreset() {
+    const text = this.currentPromptInput.trim();
+    if (text === '' || PROMPT_TEXT_PRESETS.includes(text) || this.customPresets.includes(text)) {
+      return;
+    }
+    this.customPresets = [...this.customPresets, text];
   }
 
-  private updatePromptWeight(promptId: string, newWeight: number) {
-    this.prompts = this.prompts.map((p) =>
-      p.promptId === promptId ? {...p, weight: newWeight} : p,
-    );
-    this.sendPromptUpdate();
+  private removeCustomPreset(preset: string) {
+    this.customPresets = this.customPresets.filter((p) => p !== preset);
   }
 
   private handlePromptInputKeyDown(e: KeyboardEvent) {
@@ -742,382 +1497,845 @@ export class MusicLiveStreamApp extends LitElement {
     }
   }
 
-  private sendPromptUpdate = throttle(() => {
-    // This function will be throttled, preventing rapid updates.
-    if (this.sessionPromise) {
-      this.sessionPromise.then((session) => {
-        if (session) {
-          // Fix: sendRealtimeInput property was missing on LiveSession type.
-          // Assuming LiveSession has a sendRealtimeInput method that accepts musicGenerationConfig.
-          session.sendRealtimeInput({musicGenerationConfig: this.currentMusicConfig});
-        }
-      });
+  private saveScene() {
+    const name = this.sceneNameInput.trim() || `Scene ${this.scenes.length + 1}`;
+    const scene: Scene = {
+      sceneId: `scene-${Date.now()}`,
+      name,
+      prompts: this.activeDeck.prompts.map((p) => ({...p})),
+    };
+    this.scenes = [...this.scenes, scene];
+    this.sceneNameInput = '';
+  }
+
+  private recallScene(scene: Scene) {
+    const seconds = morphSeconds(this.morphLength, this.morphUnit, this.tempoBpm);
+    this.activeDeck.morphTo(scene.prompts, seconds);
+  }
+
+  private deleteScene(sceneId: string) {
+    this.scenes = this.scenes.filter((s) => s.sceneId !== sceneId);
+  }
+
+  private toSet(): AppSet {
+    return {
+      format: SET_FORMAT,
+      version: SET_VERSION,
+      decks: {A: this.decks.A.toSet(), B: this.decks.B.toSet()},
+      settings: {
+        outputVolume: this.outputVolume,
+        crossfader: this.crossfader,
+        crossfaderCurve: this.crossfaderCurve,
+        tempoBpm: this.tempoBpm,
+        morphLength: this.morphLength,
+        morphUnit: this.morphUnit,
+      },
+      scenes: this.scenes,
+      customPresets: this.customPresets,
+    };
+  }
+
+  private applySet(set: AppSet) {
+    this.decks.A.applySet(set.decks.A);
+    this.decks.B.applySet(set.decks.B);
+    this.outputVolume = set.settings.outputVolume;
+    if (this.outputGainNode) {
+      this.outputGainNode.gain.value = this.outputVolume;
     }
-    this.requestUpdate();
-  }, 100); // Throttles to 100ms
+    this.crossfader = set.settings.crossfader;
+    this.crossfaderCurve = set.settings.crossfaderCurve;
+    this.applyCrossfader();
+    this.tempoBpm = set.settings.tempoBpm;
+    this.morphLength = set.settings.morphLength;
+    this.morphUnit = set.settings.morphUnit;
+    this.scenes = set.scenes;
+    this.customPresets = set.customPresets;
+  }
+
+  private async restoreSavedSet() {
+    try {
+      const saved = await loadState<unknown>(SAVED_SET_KEY);
+      if (saved !== undefined) {
+        this.applySet(validateSet(saved));
+      }
+    } catch (error) {
+      console.warn('Ignoring saved set that could not be restored:', error);
+    } finally {
+      // Only start saving once the previous state is in, so it isn't overwritten.
+      this.savedSetRestored = true;
+    }
+  }
+
+  private async restoreTakes() {
+    try {
+      this.takes = await loadTakes();
+    } catch (error) {
+      this.reportError(toAppError(error, 'storage', 'The take library could not be loaded.'), 'Library');
+    }
+  }
+
+  private async renameTake({takeId, name}: RenameTakeDetail) {
+    const take = this.takes.find((t) => t.takeId === takeId);
+    if (!take) return;
+    const renamed = {...take, name};
+    this.takes = this.takes.map((t) => (t.takeId === takeId ? renamed : t));
+    try {
+      await saveTake(renamed);
+    } catch (error) {
+      this.reportError(toAppError(error, 'storage', 'The take could not be renamed.'), 'Library');
+    }
+  }
+
+  private async removeTakes(takeIds: string[]) {
+    const ids = new Set(takeIds);
+    this.takes = this.takes.filter((t) => !ids.has(t.takeId));
+    if (this.editingTake && ids.has(this.editingTake.takeId)) {
+      this.closeEditor();
+    }
+    try {
+      await deleteTakes(takeIds);
+    } catch (error) {
+      this.reportError(toAppError(error, 'storage', 'Takes could not be deleted.'), 'Library');
+    }
+  }
+
+  /** Adds a newly encoded take to the library and persists it. */
+  private addTake(audio: Blob, format: ExportFormat, metadata: TakeMetadata) {
+    const take = createTake(audio, format, metadata);
+    this.takes = [take, ...this.takes];
+    saveTake(take).catch((error) =>
+      this.reportError(
+        toAppError(error, 'storage', 'The take could not be saved to the library.'),
+        'Library',
+      ),
+    );
+  }
+
+  private async openEditor(takeId: string) {
+    const take = this.takes.find((t) => t.takeId === takeId);
+    if (!take) return;
+    try {
+      this.editingAudio = await decodeTake(take, OUTPUT_SAMPLE_RATE);
+      this.editingTake = take;
+    } catch (error) {
+      this.reportError(toAppError(error, 'file-import', 'The take could not be decoded for editing.'), 'Editor');
+    }
+  }
+
+  private closeEditor() {
+    this.editingTake = null;
+    this.editingAudio = null;
+  }
+
+  /**
+   * Renders the edit and encodes it with the current export settings, like a
+   * new recording. The result is saved as a new take next to the original.
+   */
+  private async applyTakeEdit(edit: TakeEdit) {
+    const take = this.editingTake;
+    const audio = this.editingAudio;
+    if (!take || !audio) return;
+    const settings = this.exportSettings;
+    // A separate encoder, so a recording finishing meanwhile can't terminate it.
+    let ffmpeg: FFmpeg | null = null;
+    const getFfmpeg = async () => {
+      try {
+        return (ffmpeg ??= await loadFfmpeg());
+      } catch (error) {
+        throw new AppError('encoder-load', undefined, {cause: error});
+      }
+    };
+    this.editorBusy = true;
+    try {
+      const edited = applyEdit(audio, edit);
+      const metadata = editMetadata({...take.metadata, title: take.name}, edit, `${take.name} (edit)`);
+      const blob = await encodeAudio(edited, settings, getFfmpeg, metadata);
+      this.addTake(blob, settings.format, metadata);
+      this.closeEditor();
+    } catch (error) {
+      this.reportError(toAppError(error, 'encode-failure'), 'Editor');
+    } finally {
+      ffmpeg?.terminate();
+      this.editorBusy = false;
+    }
+  }
+
+  /**
+   * Encodes each track of a split with the current export settings and
+   * downloads them together. Tracks are named after their dominant prompt.
+   */
+  private async splitTake({edit, points}: SplitTakeDetail) {
+    const take = this.editingTake;
+    const audio = this.editingAudio;
+    if (!take || !audio) return;
+    const settings = this.exportSettings;
+    let ffmpeg: FFmpeg | null = null;
+    const getFfmpeg = async () => {
+      try {
+        return (ffmpeg ??= await loadFfmpeg());
+      } catch (error) {
+        throw new AppError('encoder-load', undefined, {cause: error});
+      }
+    };
+    this.editorBusy = true;
+    try {
+      const tracks: Take[] = [];
+      const edits = splitEdits(edit, points);
+      for (const [i, trackEdit] of edits.entries()) {
+        const number = String(i + 1).padStart(2, '0');
+        const source = {...take.metadata, title: take.name};
+        const named = editMetadata(source, trackEdit, '');
+        const title = `${number} ${dominantPrompt(named) ?? take.name}`;
+        const metadata = {...named, title};
+        const blob = await encodeAudio(applyEdit(audio, trackEdit), settings, getFfmpeg, metadata);
+        tracks.push(createTake(blob, settings.format, metadata));
+      }
+      const url = URL.createObjectURL(await zipTakes(tracks));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${takeBaseName(take)} (tracks).zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      this.reportError(toAppError(error, 'encode-failure', 'The take could not be split.'), 'Editor');
+    } finally {
+      ffmpeg?.terminate();
+      this.editorBusy = false;
+    }
+  }
+
+  private persistSet = throttle(() => {
+    if (!this.savedSetRestored) return;
+    const set = this.toSet();
+    const serialized = JSON.stringify(set);
+    if (serialized === this.lastSavedSet) return;
+    this.lastSavedSet = serialized;
+    saveState(SAVED_SET_KEY, set).catch((error) =>
+      console.error('Error saving set:', error),
+    );
+  }, 500);
+
+  private exportSet() {
+    const blob = new Blob([serializeSet(this.toSet())], {type: 'application/json'});
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'auraspirit-set.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private async handleSetFileChange(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+    try {
+      this.applySet(parseSetFile(await file.text()));
+    } catch (error) {
+      this.reportError(toAppError(error, 'file-import', (error as Error).message));
+    }
+  }
+
+  private applyCrossfader() {
+    const [gainA, gainB] = crossfaderGains(this.crossfader, this.crossfaderCurve);
+    this.decks.A.setFaderGain(gainA);
+    this.decks.B.setFaderGain(gainB);
+  }
+
+  /**
+   * Color of the prompt heard the most: the largest weight after the
+   * crossfader among the decks playing out.
+   */
+  private get dominantPromptColor(): string | undefined {
+    const gains = crossfaderGains(this.crossfader, this.crossfaderCurve);
+    let best: Prompt | undefined;
+    let bestLevel = 0;
+    (['A', 'B'] as const).forEach((deckId, i) => {
+      const deck = this.decks[deckId];
+      if (!deck.isPlayingOut) return;
+      for (const prompt of deck.prompts) {
+        const level = prompt.weight * gains[i];
+        if (level > bestLevel) {
+          best = prompt;
+          bestLevel = level;
+        }
+      }
+    });
+    return best?.color;
+  }
+
+  private setCrossfader(position: number) {
+    this.crossfader = position;
+    this.applyCrossfader();
+  }
 
-  private async connectLiveSession() {
-    if (this.playbackState === 'playing' || this.playbackState === 'loading') {
+  private handleCrossfaderChange(event: Event) {
+    this.setCrossfader(parseFloat((event.target as HTMLInputElement).value));
+  }
+
+  private handleCrossfaderCurveChange(event: Event) {
+    this.crossfaderCurve = (event.target as HTMLSelectElement).value as CrossfaderCurve;
+    this.applyCrossfader();
+  }
+
+  private async handleRecordButtonClick() {
+    if (this.recordingState === 'processing' || this.recordingState === 'initializing') return;
+
+    if (this.recordingState === 'recording') {
+      await this.finishRecording();
       return;
     }
-    this.playbackState = 'loading';
-    this.requestUpdate();
+    // Start recording
+    if (!this.outputAudioContext || !this.outputGainNode) {
+      this.reportError(new AppError('audio-context', 'Audio context not available for recording.'));
+      return;
+    }
+    this.recordingState = 'initializing';
+    try {
+      const context = this.outputAudioContext;
+      const output = await this.recordedOutput(context, this.outputGainNode);
+      const tracks: TrackSource[] = [{name: 'output', node: output, channelCount: 2}];
+      if (this.multitrackEnabled && this.capture && this.inputSourceKind !== 'none') {
+        // The input reaches the output context through a MediaStream. Both
+        // tracks then run on its clock, but the input lags by the stream hop,
+        // typically a few tens of milliseconds.
+        const input = context.createMediaStreamSource(this.capture.stream);
+        tracks.push({name: 'input', node: input, channelCount: 1});
+      } else if (this.multitrackEnabled) {
+        this.reportError(
+          new AppError('mic-permission', 'No steering input is open, so only the output is recorded.'),
+          'Recorder',
+        );
+      }
+      this.recorder = await MultitrackRecorder.start(context, tracks);
+      this.promptTimeline = new PromptTimeline(
+        () => context.currentTime,
+        Object.fromEntries(
+          this.deckList
+            .filter((d) => d.isActive)
+            .map((d) => [d.id, d.currentMusicConfig.weightedPrompts]),
+        ),
+      );
+      this.recordingState = 'recording';
+    } catch (error) {
+      this.stopRecordingMastering();
+      this.reportError(toAppError(error, 'audio-context', 'The recorder could not be started.'), 'Recorder');
+      this.recordingState = 'idle';
+    }
+  }
+
+  /**
+   * The node takes record from, after the limiter like the speakers. With
+   * talkover left out of takes, the music alone gets a limiter of its own.
+   * While the limiter is not running, takes record the program unlimited.
+   */
+  private async recordedOutput(context: AudioContext, music: GainNode): Promise<AudioNode> {
+    if (this.recordTalkover) {
+      return this.mastering?.node ?? this.programGainNode ?? music;
+    }
+    const mastering = await Mastering.start(context, () => {});
+    mastering.apply(this.masteringSettings);
+    music.connect(mastering.node);
+    this.recordingMastering = {mastering, source: music};
+    return mastering.node;
+  }
+
+  private stopRecordingMastering() {
+    if (!this.recordingMastering) return;
+    const {mastering, source} = this.recordingMastering;
+    source.disconnect(mastering.node);
+    mastering.stop();
+    this.recordingMastering = null;
+  }
+
+  private async finishRecording() {
+    const recorder = this.recorder;
+    const timeline = this.promptTimeline;
+    this.recorder = null;
+    this.promptTimeline = null;
+    if (!recorder || !timeline) return;
+    this.recordingState = 'processing'; // State will change to 'finished' or 'idle' after processing
+    const settings = this.exportSettings;
+    try {
+      const tracks = await recorder.stop();
+      const {audio} = tracks[0];
+      const metadata = timeline.finish(audio.channels[0].length / audio.sampleRate);
+      // Multitrack recordings become one take per track, named after it.
+      const trackMetadata = (label: string) => ({...metadata, title: `${metadata.title} (${label})`});
+      const exports =
+        tracks.length === 1
+          ? [{audio, metadata}]
+          : [
+              ...tracks.map((t) => ({audio: t.audio, metadata: trackMetadata(TRACK_LABELS[t.name])})),
+              ...(this.mixdownEnabled
+                ? [{audio: mixdown(tracks), metadata: trackMetadata(TRACK_LABELS.mixdown)}]
+                : []),
+            ];
+      for (const item of exports) {
+        const blob = await encodeAudio(item.audio, settings, () => this.loadFFmpeg(), item.metadata);
+        this.addTake(blob, settings.format, item.metadata);
+      }
+      this.recordingState = 'finished';
+    } catch (error) {
+      this.reportError(toAppError(error, 'encode-failure'), 'Recorder');
+      this.recordingState = 'idle';
+    } finally {
+      this.stopRecordingMastering();
+      // Fix: Use terminate() method for FFmpeg cleanup.
+      this.ffmpeg?.terminate(); // Clean up FFmpeg instance
+      this.ffmpeg = null;
+    }
+  }
+
+  private async loadFFmpeg(): Promise<FFmpeg> {
+    if (this.ffmpeg) {
+      return this.ffmpeg;
+    }
+    this.recordingState = 'initializing';
+    try {
+      this.ffmpeg = await loadFfmpeg();
+      return this.ffmpeg;
+    } catch (error) {
+      throw new AppError('encoder-load', undefined, {cause: error});
+    } finally {
+      this.recordingState = 'processing';
+    }
+  }
+
+  private updateExportSettings(changes: Partial<ExportSettings>) {
+    this.exportSettings = {...this.exportSettings, ...changes};
+  }
+
+  private renderTalkover() {
+    const duckingInput = (
+      key: keyof DuckingSettings,
+      label: string,
+      min: number,
+      max: number,
+      step: number,
+    ) => html`<label>
+      ${label}
+      <input
+        type="number"
+        min=${min}
+        max=${max}
+        step=${step}
+        .value=${this.ducking[key].toString()}
+        @change=${(e: Event) => {
+          const value = parseFloat((e.target as HTMLInputElement).value);
+          if (!Number.isNaN(value)) {
+            this.updateDucking({[key]: Math.max(min, Math.min(max, value))});
+          }
+        }}
+      />
+    </label>`;
+    return html`<div class="talkover-area">
+      <button
+        class=${classMap({'preset-button': true, 'talkover-active': this.talkoverEnabled})}
+        @click=${() => this.setTalkover(!this.talkoverEnabled)}
+        aria-pressed=${this.talkoverEnabled}
+      >
+        Talkover
+      </button>
+      <select
+        @change=${(e: Event) => this.selectTalkoverDevice((e.target as HTMLSelectElement).value)}
+        aria-label="Talkover microphone"
+      >
+        <option value="" ?selected=${this.talkoverDeviceId === ''}>Default microphone</option>
+        ${map(
+          this.inputDevices.filter((d) => d.deviceId && d.deviceId !== 'default'),
+          (d, i) => html`<option value=${d.deviceId} ?selected=${this.talkoverDeviceId === d.deviceId}>
+            ${d.label || `Microphone ${i + 1}`}
+          </option>`,
+        )}
+      </select>
+      ${duckingInput('depth', 'Duck (dB)', 0, 60, 1)}
+      ${duckingInput('threshold', 'Threshold (dBFS)', -100, 0, 1)}
+      ${duckingInput('attack', 'Attack (ms)', 0, 2000, 5)}
+      ${duckingInput('release', 'Release (ms)', 0, 5000, 50)}
+      <label>
+        <input
+          type="checkbox"
+          .checked=${this.recordTalkover}
+          @change=${(e: Event) => (this.recordTalkover = (e.target as HTMLInputElement).checked)}
+          ?disabled=${this.recordingState === 'recording'}
+        />
+        In recordings
+      </label>
+    </div>`;
+  }
+
+  private renderExportQuality() {
+    const settings = this.exportSettings;
+    const numberSelect = (
+      values: number[],
+      current: number,
+      label: (value: number) => string,
+      onChange: (value: number) => void,
+      ariaLabel: string,
+    ) => html`<select
+      @change=${(e: Event) => onChange(parseInt((e.target as HTMLSelectElement).value, 10))}
+      ?disabled=${this.recordingState === 'processing'}
+      aria-label=${ariaLabel}
+    >
+      ${map(
+        values,
+        (value) => html`<option value=${value} ?selected=${value === current}>${label(value)}</option>`,
+      )}
+    </select>`;
+
+    switch (settings.format) {
+      case 'wav':
+        return html`<select
+          @change=${(e: Event) =>
+            this.updateExportSettings({
+              wavSampleFormat: (e.target as HTMLSelectElement).value as WavSampleFormat,
+            })}
+          ?disabled=${this.recordingState === 'processing'}
+          aria-label="WAV sample format"
+        >
+          ${map(
+            WAV_SAMPLE_FORMATS,
+            (f) => html`<option value=${f} ?selected=${f === settings.wavSampleFormat}>
+              ${WAV_SAMPLE_FORMAT_LABELS[f]}
+            </option>`,
+          )}
+        </select>`;
+      case 'flac':
+        return numberSelect(
+          FLAC_COMPRESSION_LEVELS,
+          settings.flacCompression,
+          (level) => `Level ${level}`,
+          (flacCompression) => this.updateExportSettings({flacCompression}),
+          'FLAC compression level',
+        );
+      case 'ogg-opus':
+        return numberSelect(
+          OPUS_BITRATES,
+          settings.opusBitrate,
+          (kbps) => `${kbps} kbps`,
+          (opusBitrate) => this.updateExportSettings({opusBitrate}),
+          'Opus bitrate',
+        );
+      case 'mp3':
+        return numberSelect(
+          MP3_BITRATES,
+          settings.mp3Bitrate,
+          (kbps) => `${kbps} kbps`,
+          (mp3Bitrate) => this.updateExportSettings({mp3Bitrate}),
+          'MP3 bitrate',
+        );
+    }
+  }
+
+  private async handleReplayFileChange(deck: Deck, event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+    try {
+      deck.setReplayLog(parseSessionLog(await file.text()), file.name);
+    } catch (error) {
+      this.reportError(
+        toAppError(error, 'file-import', `Failed to load session log: ${(error as Error).message}`),
+        `Deck ${deck.id}`,
+      );
+    }
+  }
+
+  private setOutputVolume(volume: number) {
+    this.outputVolume = volume;
+    if (this.outputGainNode) {
+      this.outputGainNode.gain.value = this.outputVolume;
+    }
+  }
+
+  private handleVolumeChange(event: Event) {
+    const slider = event.target as HTMLInputElement;
+    this.setOutputVolume(parseFloat(slider.value));
+  }
 
-    try {
-      this.initializeAudioContexts(); // Ensure contexts are initialized/re-initialized
-      if (!this.inputAudioContext || !this.outputAudioContext || !this.outputGainNode) {
-        alert('Failed to initialize audio contexts. Please check browser settings.');
-        this.playbackState = 'stopped';
-        this.requestUpdate();
-        this.cleanupAudioResources(); // Clean up on initialization failure
-        this.sessionPromise = null; // Clear promise
-        return;
+  private midiHandler: MidiTargetHandler = {
+    getValue: (target) => {
+      switch (target.kind) {
+        case 'weight':
+          return this.decks[target.deckId].prompts.find((p) => p.promptId === target.promptId)?.weight ?? 0;
+        case 'deck-gain':
+          return this.decks[target.deckId].gain;
+        case 'volume':
+          return this.outputVolume;
+        case 'crossfader':
+          return this.crossfader;
+        default:
+          return 0;
       }
+    },
+    setValue: (target, value) => {
+      const rounded = parseFloat(value.toFixed(2));
+      switch (target.kind) {
+        case 'weight':
+          this.decks[target.deckId].updatePromptWeight(target.promptId, rounded);
+          break;
+        case 'deck-gain':
+          this.decks[target.deckId].setGain(rounded);
+          break;
+        case 'volume':
+          this.setOutputVolume(rounded);
+          break;
+        case 'crossfader':
+          this.setCrossfader(rounded);
+          break;
+      }
+    },
+    trigger: (target) => {
+      switch (target.kind) {
+        case 'play-pause':
+          this.decks[target.deckId].togglePlayPause();
+          break;
+        case 'stop':
+          this.decks[target.deckId].stop();
+          break;
+        case 'record':
+          if (this.recordingState === 'recording' || this.deckList.some((d) => d.isPlayingOut)) {
+            this.handleRecordButtonClick();
+          }
+          break;
+      }
+    },
+  };
 
-      this.mediaStream = await navigator.mediaDevices.getUserMedia({audio: true});
-
-      // Fix: responseModalities and musicGenerationConfig are moved inside the 'config' object.
-      // This aligns with the `LiveConnectParameters` type definition and the example in the guidelines.
-      this.sessionPromise = ai.live.connect({
-        model: LIVE_MUSIC_MODEL, // Explicitly use the string literal for the model
-        callbacks: {
-          onopen: () => {
-            if (!this.inputAudioContext || !this.mediaStream) {
-              console.error('Input audio context or media stream not available on open.');
-              // This indicates a critical failure; attempt cleanup and reset state.
-              this.playbackState = 'stopped';
-              this.requestUpdate();
-              this.cleanupAudioResources();
-              this.sessionPromise = null;
-              return;
-            }
-            const source = this.inputAudioContext.createMediaStreamSource(this.mediaStream!);
-            // Cast to Mutable<ScriptProcessorNode> as ScriptProcessorNode is being used.
-            this.scriptProcessor = this.inputAudioContext.createScriptProcessor(4096, 1, 1) as Mutable<ScriptProcessorNode>;
-            this.scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
-              const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-              const pcmBlob = createBlob(inputData);
-              this.sessionPromise!.then((session) => {
-                if (session && this.playbackState !== 'stopped' && this.playbackState !== 'loading') {
-                  // Fix: sendRealtimeInput property was missing on LiveSession type.
-                  // Assuming LiveSession has a sendRealtimeInput method that accepts media.
-                  session.sendRealtimeInput({media: pcmBlob});
-                }
-              }).catch(e => {
-                // Ignore errors if session is already closing/closed
-                if (!e.message.includes("closed") && !e.message.includes("terminating")) {
-                  console.error("Error sending realtime input:", e);
-                }
-              });
-            };
-            source.connect(this.scriptProcessor);
-            this.scriptProcessor.connect(this.inputAudioContext.destination);
-
-            this.playbackState = 'playing';
-            this.requestUpdate();
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            const audioPart = message.serverContent?.modelTurn?.parts?.[0];
-            // Only play audio if not paused
-            if (audioPart?.inlineData?.data && this.outputAudioContext && this.outputGainNode && this.playbackState !== 'paused') {
-              this.nextStartTime = Math.max(
-                this.nextStartTime,
-                this.outputAudioContext.currentTime,
-              );
-              const audioBuffer = await decodeAudioData(
-                decode(audioPart.inlineData.data),
-                this.outputAudioContext,
-                24000,
-                1,
-              );
-              const source = this.outputAudioContext.createBufferSource();
-              source.buffer = audioBuffer;
-              source.connect(this.outputGainNode);
-              source.addEventListener('ended', () => {
-                this.sources.delete(source);
-              });
-
-              source.start(this.nextStartTime);
-              this.nextStartTime = this.nextStartTime + audioBuffer.duration;
-              this.sources.add(source);
-            } else if (audioPart?.inlineData?.data && this.playbackState === 'paused') {
-              // If paused, still update nextStartTime to avoid large jumps when resuming
-              // but don't play the audio.
-              if (this.outputAudioContext) {
-                this.nextStartTime = Math.max(
-                  this.nextStartTime,
-                  this.outputAudioContext.currentTime,
-                );
-                const audioBuffer = await decodeAudioData(
-                  decode(audioPart.inlineData.data),
-                  this.outputAudioContext,
-                  24000,
-                  1,
-                );
-                this.nextStartTime = this.nextStartTime + audioBuffer.duration;
-              }
-            }
-
-
-            const interrupted = message.serverContent?.interrupted;
-            if (interrupted) {
-              for (const source of this.sources.values()) {
-                source.stop();
-                this.sources.delete(source);
-              }
-              this.nextStartTime = 0;
-            }
-            this.requestUpdate();
-          },
-          onerror: (e: Event) => {
-            console.error('Live session error:', e);
-            this.playbackState = 'stopped';
-            this.requestUpdate();
-            alert('Music stream encountered an error.');
-            this.cleanupAudioResources(); // Clean up local resources on error
-            this.sessionPromise = null; // Clear promise on error
-          },
-          onclose: (e: CloseEvent) => {
-            console.debug('Live session closed:', e);
-            this.playbackState = 'stopped'; // Ensure state is 'stopped' after session closure
-            this.requestUpdate();
-            this.cleanupAudioResources(); // Clean up local resources on close
-            this.sessionPromise = null; // Clear promise on close
-          },
-        },
-        config: { // <--- responseModalities and musicGenerationConfig moved here
-          responseModalities: [Modality.AUDIO],
-          musicGenerationConfig: this.currentMusicConfig,
-        },
+  private async enableMidi() {
+    if (this.midiMapper) return;
+    try {
+      const access = await navigator.requestMIDIAccess();
+      const saved = await loadState<MidiMappings>(MIDI_MAPPINGS_KEY).catch(() => undefined);
+      this.midiMapper = new MidiMapper(access, this.midiHandler, saved ?? {}, (mappings) => {
+        this.midiMappings = mappings;
+        this.clearMidiPending();
+        saveState(MIDI_MAPPINGS_KEY, mappings).catch((error) =>
+          console.error('Error saving MIDI mappings:', error),
+        );
+      });
+      this.midiMappings = this.midiMapper.getMappings();
+      this.midiControllers = this.midiMapper.controllers;
+      access.addEventListener('statechange', () => {
+        this.midiControllers = this.midiMapper?.controllers ?? [];
       });
+      this.midiEnabled = true;
     } catch (error) {
-      console.error('Error connecting live session:', error);
-      this.playbackState = 'stopped';
-      this.requestUpdate();
-      alert('Failed to connect to the music stream. Please ensure microphone access is granted.');
-      this.cleanupAudioResources(); // Clean up local resources on connection error
-      this.sessionPromise = null; // Clear promise on connection error
+      this.reportError(toAppError(error, 'midi-access'), 'MIDI');
     }
   }
 
-  private async stopPlayback() {
-    if (this.sessionPromise) {
-      const session = await this.sessionPromise;
-      if (session) {
-        session.close(); // This will trigger onclose.
-      }
+  private toggleMidiLearn() {
+    this.midiLearnActive = !this.midiLearnActive;
+    if (!this.midiLearnActive) {
+      this.midiMapper?.learn(null);
+      this.clearMidiPending();
     }
-    // Immediate UI update, but actual audio cleanup happens in onclose
-    // The state will be set to 'stopped' again in onclose, but this provides immediate feedback.
-    this.playbackState = 'stopped';
-    this.requestUpdate();
-    // Do not set this.sessionPromise = null here; it should be done in onclose/onerror.
   }
 
-  private pausePlayback() {
-    if (this.playbackState !== 'playing') return;
-
-    for (const source of this.sources.values()) {
-      source.stop();
-    }
-    this.sources.clear();
-    // Do NOT close session or stop mic stream. The model continues to generate.
-    this.playbackState = 'paused';
+  /**
+   * While learning, a press on any control marked with `data-midi-target`
+   * arms that target instead of operating the control.
+   */
+  private handleMidiLearnCapture = (e: Event) => {
+    if (!this.midiLearnActive || !this.midiMapper) return;
+    const element = e
+      .composedPath()
+      .find((node): node is Element => node instanceof Element && node.hasAttribute('data-midi-target'));
+    if (!element) return;
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.type !== 'pointerdown') return;
+    const target = parseTargetKey(element.getAttribute('data-midi-target')!);
+    if (!target) return;
+    this.clearMidiPending();
+    this.midiPendingElement = element;
+    element.classList.add('midi-pending');
+    this.midiMapper.learn(target);
     this.requestUpdate();
-    console.log('Playback paused. Session and microphone input remain active.');
-  }
-
-  private resumePlayback() {
-    if (this.playbackState !== 'paused') return;
+  };
 
-    // No need to re-initialize audio contexts or restart microphone stream
-    // as they were left active during pause.
-    this.playbackState = 'playing';
-    this.requestUpdate();
-    console.log('Playback resumed.');
+  private clearMidiPending() {
+    this.midiPendingElement?.classList.remove('midi-pending');
+    this.midiPendingElement = null;
   }
 
-  private handlePlayPauseButtonClick() {
-    if (this.playbackState === 'stopped' || this.playbackState === 'paused') {
-      if (this.playbackState === 'paused') {
-        this.resumePlayback();
-      } else {
-        this.connectLiveSession();
-      }
-    } else if (this.playbackState === 'playing') {
-      this.pausePlayback();
+  private describeMidiSource(source: MidiSource): string {
+    const channel = `ch ${source.channel + 1}`;
+    switch (source.type) {
+      case 'cc':
+        return `CC ${source.number} (${channel})`;
+      case 'note':
+        return `Note ${source.number} (${channel})`;
+      default:
+        return `Pitch bend (${channel})`;
     }
   }
 
-  private async handleRecordButtonClick() {
-    if (this.recordingState === 'processing') return;
-
-    if (this.recordingState === 'idle') {
-      // Start recording
-      if (!this.outputAudioContext) {
-        alert('Audio context not available for recording.');
-        return;
+  private describeMidiTarget(target: MidiTarget): string {
+    switch (target.kind) {
+      case 'weight': {
+        const prompt = this.decks[target.deckId].prompts.find((p) => p.promptId === target.promptId);
+        return `Deck ${target.deckId} weight: ${prompt?.text ?? '(removed prompt)'}`;
       }
-      this.recordedChunks = [];
-      this.recordedAudioUrl = null;
-      // Capture the generated output directly from the gain node
-      const destination = this.outputAudioContext.createMediaStreamDestination();
-      this.outputGainNode?.connect(destination); // Connect output to recorder
-      this.mediaRecorder = new MediaRecorder(destination.stream);
-
-      this.mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          this.recordedChunks.push(event.data);
-        }
-      };
-
-      this.mediaRecorder.onstop = async () => {
-        this.recordingState = 'processing';
-        this.requestUpdate();
-        try {
-          // Re-encode to MP3 using FFmpeg
-          await this.loadFFmpeg();
-          if (!this.ffmpeg) {
-            throw new Error('FFmpeg failed to load.');
-          }
-
-          const audioBlob = new Blob(this.recordedChunks, {type: 'audio/webm'});
-          const arrayBuffer = await audioBlob.arrayBuffer();
-          const uint8Array = new Uint8Array(arrayBuffer);
-
-          await this.ffmpeg.writeFile('input.webm', uint8Array);
-          await this.ffmpeg.exec(['-i', 'input.webm', 'output.mp3']);
-
-          const outputData = (await this.ffmpeg.readFile('output.mp3')) as Uint8Array;
-          const mp3Blob = new Blob([outputData], {type: 'audio/mp3'});
-          this.recordedAudioUrl = URL.createObjectURL(mp3Blob);
-
-          this.recordingState = 'finished';
-        } catch (error) {
-          console.error('Error processing recording:', error);
-          alert('Failed to process recording.');
-          this.recordingState = 'idle';
-        } finally {
-          // Fix: Use terminate() method for FFmpeg cleanup.
-          this.ffmpeg?.terminate(); // Clean up FFmpeg instance
-          this.ffmpeg = null;
-          this.requestUpdate();
-        }
-      };
-
-      this.mediaRecorder.start();
-      this.recordingState = 'recording';
-      this.requestUpdate();
-    } else if (this.recordingState === 'recording') {
-      // Stop recording
-      this.mediaRecorder?.stop();
-      this.outputGainNode?.disconnect(); // Disconnect recorder from output
-      this.recordingState = 'processing'; // State will change to 'finished' or 'idle' after processing
-      this.requestUpdate();
+      case 'deck-gain':
+        return `Deck ${target.deckId} gain`;
+      case 'play-pause':
+        return `Deck ${target.deckId} play/pause`;
+      case 'stop':
+        return `Deck ${target.deckId} stop`;
+      case 'volume':
+        return 'Volume';
+      case 'crossfader':
+        return 'Crossfader';
+      default:
+        return 'Record';
     }
   }
 
-  private async loadFFmpeg() {
-    if (this.ffmpeg) {
-      return;
-    }
-    this.recordingState = 'initializing';
-    this.requestUpdate();
-    this.ffmpeg = new FFmpeg();
-    this.ffmpeg.on('log', ({message}) => console.log(`FFmpeg: ${message}`));
-    await this.ffmpeg.load({
-      coreURL: await toBlobURL('https://unpkg.com/@ffmpeg/core@0.12.6/dist/ffmpeg-core.js', 'text/javascript'),
-      wasmURL: await toBlobURL('https://unpkg.com/@ffmpeg/core@0.12.6/dist/ffmpeg-core.wasm', 'application/wasm'),
-      // workerURL: await toBlobURL('https://unpkg.com/@ffmpeg/ffmpeg@0.12.10/dist/ffmpeg.js', 'text/javascript'),
-    });
-    // The recording state will be updated by handleRecordButtonClick after FFmpeg is loaded
+  private renderMidiPanel() {
+    if (!this.midiEnabled) {
+      return html`<div class="midi-area">
+        <button class="preset-button" @click=${this.enableMidi} aria-label="Enable MIDI controllers">
+          Enable MIDI
+        </button>
+      </div>`;
+    }
+    const controllers = [
+      ...new Set([...this.midiControllers, ...Object.keys(this.midiMappings)]),
+    ];
+    return html`
+      <div class="midi-area">
+        <div class="midi-header">
+          <button
+            class=${classMap({'preset-button': true, 'midi-learn-button': true, 'active': this.midiLearnActive})}
+            @click=${this.toggleMidiLearn}
+            aria-label="${this.midiLearnActive ? 'Finish' : 'Start'} MIDI learn"
+          >
+            ${this.midiLearnActive ? 'Done learning' : 'MIDI learn'}
+          </button>
+          <span>
+            ${this.midiLearnActive
+              ? this.midiMapper?.learning
+                ? `Move a control to map ${this.describeMidiTarget(this.midiMapper.learning)}`
+                : 'Click a slider or button, then move a control.'
+              : this.midiControllers.length === 0
+                ? 'No MIDI controllers connected.'
+                : `Connected: ${this.midiControllers.join(', ')}`}
+          </span>
+        </div>
+        ${map(
+          controllers,
+          (controller) => html`
+            ${(this.midiMappings[controller] ?? []).length > 0
+              ? html`<div class="midi-controller">${controller}</div>`
+              : ''}
+            ${map(
+              this.midiMappings[controller] ?? [],
+              (mapping, index) => html`
+                <div class="midi-mapping">
+                  <span>${this.describeMidiSource(mapping.source)} → ${this.describeMidiTarget(mapping.target)}</span>
+                  ${mapping.source.type === 'cc'
+                    ? html`<select
+                        .value=${mapping.mode}
+                        @change=${(e: Event) =>
+                          this.midiMapper?.setMode(controller, index, (e.target as HTMLSelectElement).value as EncoderMode)}
+                        aria-label="Encoder mode"
+                      >
+                        <option value="absolute">Absolute</option>
+                        <option value="relative">Relative</option>
+                      </select>`
+                    : ''}
+                  <button
+                    class="remove-prompt-button"
+                    @click=${() => this.midiMapper?.removeMapping(controller, index)}
+                    aria-label="Remove MIDI mapping"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24"><path d="m256-200-56-56 224-224-224-224 56-56 224 224 224-224 56 56-224 224 224 224-56 56-224-224-224 224Z"/></svg>
+                  </button>
+                </div>
+              `,
+            )}
+          `,
+        )}
+      </div>
+    `;
   }
 
-  private handleVolumeChange(event: Event) {
-    const slider = event.target as HTMLInputElement;
-    this.outputVolume = parseFloat(slider.value);
-    if (this.outputGainNode) {
-      this.outputGainNode.gain.value = this.outputVolume;
-    }
+  /** Tempo and key of the deck's stream, with how sure the estimate is. */
+  private renderAnalysis(deck: Deck) {
+    const {tempo, key} = deck.analysis;
+    const percent = (confidence: number) => `${Math.round(confidence * 100)}%`;
+    if (!tempo && !key) {
+      return html`<span class="analysis">Analyzing…</span>`;
+    }
+    return html`<span class="analysis" title="Estimated from the last seconds of the stream">
+      ${tempo ? html`${tempo.bpm.toFixed(1)} BPM <small>${percent(tempo.confidence)}</small>` : ''}
+      ${key ? html`· ${formatKey(key)} <small>${percent(key.confidence)}</small>` : ''}
+    </span>`;
   }
 
-  override render() {
-    const isPlayingOrLoading =
-      this.playbackState === 'playing' || this.playbackState === 'loading';
-    const isPlaying = this.playbackState === 'playing';
-    const isLoading = this.playbackState === 'loading';
-    const isStopped = this.playbackState === 'stopped';
-    const isPaused = this.playbackState === 'paused';
-
-    const recordingDisabled =
-      this.recordingState === 'initializing' ||
-      this.recordingState === 'processing' ||
-      !isPlaying; // Can only record if playing
+  private renderDeck(deck: Deck) {
+    const isPlaying = deck.playbackState === 'playing';
+    const isLoading = deck.playbackState === 'loading';
+    const isReconnecting = deck.playbackState === 'reconnecting';
+    const isStopped = deck.playbackState === 'stopped';
 
     const playPauseButtonText = isPlaying
       ? 'Pause'
       : isLoading
         ? 'Loading...'
-        : 'Play';
+        : isReconnecting
+          ? 'Reconnecting...'
+          : 'Play';
 
     const playPauseButtonIcon = isPlaying
       ? svg`<svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24"><path d="M576-216v-528h168v528H576Zm-336 0v-528h168v528H240Z"/></svg>`
-      : isLoading
+      : isLoading || isReconnecting
         ? html`<div class="spinner"></div>`
         : svg`<svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24"><path d="M320-216v-528l440 264-440 264Z"/></svg>`;
 
-    const recordButtonClasses = classMap({
-      'record-button': true,
-      'recording-active': this.recordingState === 'recording',
+    const deckClasses = classMap({
+      'deck': true,
+      'deck-active': deck.id === this.activeDeckId,
     });
 
     return html`
-      <div class="main-container">
-        <header>
-          <h1>AURALSPIRIT</h1>
-          <p>Steer a continuous stream of music with text prompts</p>
-        </header>
-
-        <section>
-          <div class="prompt-input-area">
-            <input
-              id="promptInput"
-              type="text"
-              placeholder="Enter a prompt, e.g., 'driving synthwave' or 'relaxing piano'"
-              .value=${this.currentPromptInput}
-              @input=${(e: Event) =>
-                (this.currentPromptInput = (e.target as HTMLInputElement).value)}
-              @keydown=${this.handlePromptInputKeyDown}
-              aria-label="Enter music prompt"
-            />
-            <button @click=${this.addPrompt} aria-label="Add prompt">
-              <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24"><path d="M440-440H200v-80h240V200h80v240h240v80H520v240h-80v-240Z"/></svg>
-              Add
-            </button>
-          </div>
-          <div class="prompt-presets">
-            ${map(
-              PROMPT_TEXT_PRESETS,
-              (preset) => html`
-                <button
-                  class="preset-button"
-                  @click=${() => this.addPresetPrompt(preset)}
-                  aria-label="Add preset prompt: ${preset}"
-                >
-                  ${preset}
-                </button>
-              `,
-            )}
+      <div class=${deckClasses}>
+        <div class="deck-header">
+          <button
+            class="deck-title"
+            @click=${() => (this.activeDeckId = deck.id)}
+            aria-label="Add new prompts to deck ${deck.id}"
+          >
+            Deck ${deck.id}
+          </button>
+          <div class="source-control">
+            <label for="source-select-${deck.id}">Source:</label>
+            <select
+              id="source-select-${deck.id}"
+              .value=${deck.musicSourceKind}
+              @change=${(e: Event) =>
+                deck.setMusicSourceKind((e.target as HTMLSelectElement).value as MusicSourceKind)}
+              ?disabled=${!isStopped || deck.musicSource !== null || deck.replayLog !== null}
+              aria-label="Music source for deck ${deck.id}"
+            >
+              <option value="gemini">Gemini</option>
+              <option value="synthetic">Offline</option>
+            </select>
           </div>
-        </section>
+        </div>
 
         <section class="prompts-list-area">
-          ${this.prompts.length === 0
+          ${deck.prompts.length === 0
             ? html`<p style="text-align: center; color: #888;">
                 Add prompts to start generating music!
               </p>`
             : map(
-                this.prompts,
+                deck.prompts,
                 (p) => html`
                   <div
                     class="prompt-item"
@@ -1127,48 +2345,474 @@ export class MusicLiveStreamApp extends LitElement {
                       <span class="prompt-text">${p.text}</span>
                       <button
                         class="remove-prompt-button"
-                        @click=${() => this.removePrompt(p.promptId)}
+                        @click=${() => deck.removePrompt(p.promptId)}
                         aria-label="Remove prompt: ${p.text}"
                       >
                         <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24"><path d="m256-200-56-56 224-224-224-224 56-56 224 224 224-224 56 56-224 224 224 224-56 56-224-224-224 224Z"/></svg>
                       </button>
                     </div>
                     <weight-slider
+                      data-midi-target="weight:${deck.id}:${p.promptId}"
                       .value=${p.weight}
                       .color=${p.color}
                       @value-change=${(e: CustomEvent<number>) =>
-                        this.updatePromptWeight(p.promptId, e.detail)}
+                        deck.updatePromptWeight(p.promptId, e.detail)}
                       aria-label="Adjust weight for prompt: ${p.text}"
                     ></weight-slider>
+                    ${deck.automationEnabled
+                      ? html`<automation-lane
+                          .keyframes=${deck.automation[p.promptId] ?? []}
+                          .duration=${deck.automationLength}
+                          .position=${deck.automationPosition}
+                          .color=${p.color}
+                          .interpolation=${deck.automationInterpolation}
+                          @keyframes-change=${(e: CustomEvent<Keyframe[]>) =>
+                            deck.setAutomationLane(p.promptId, e.detail)}
+                          aria-label="Weight automation for prompt: ${p.text}"
+                        ></automation-lane>`
+                      : ''}
                   </div>
                 `,
               )}
         </section>
 
-        <div class="controls-area">
+        ${deck.pendingEdits > 0
+          ? html`<div class="pending-edits" role="status">
+              ${deck.pendingEdits} ${deck.pendingEdits === 1 ? 'change' : 'changes'} apply in
+              ${(deck.pendingEditsIn ?? 0).toFixed(1)} s
+            </div>`
+          : ''}
+
+        <div class="automation-controls">
+          <label>
+            <input
+              type="checkbox"
+              .checked=${deck.automationEnabled}
+              @change=${(e: Event) =>
+                deck.setAutomationEnabled((e.target as HTMLInputElement).checked)}
+            />
+            Automation
+          </label>
+          ${deck.automationEnabled
+            ? html`<label>
+                  Length (s)
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    .value=${deck.automationLength.toString()}
+                    @change=${(e: Event) =>
+                      deck.setAutomationLength(parseFloat((e.target as HTMLInputElement).value) || 60)}
+                    aria-label="Automation length in seconds for deck ${deck.id}"
+                  />
+                </label>
+                <label>
+                  <input
+                    type="checkbox"
+                    .checked=${deck.automationLoop}
+                    @change=${(e: Event) =>
+                      deck.setAutomationLoop((e.target as HTMLInputElement).checked)}
+                  />
+                  Loop
+                </label>
+                <select
+                  @change=${(e: Event) =>
+                    deck.setAutomationInterpolation(
+                      (e.target as HTMLSelectElement).value as Interpolation,
+                    )}
+                  aria-label="Interpolation for new keyframes on deck ${deck.id}"
+                >
+                  ${map(
+                    INTERPOLATIONS,
+                    (i) => html`<option value=${i} ?selected=${i === deck.automationInterpolation}>
+                      ${i}
+                    </option>`,
+                  )}
+                </select>
+                <button
+                  class="preset-button"
+                  @click=${() => deck.rewindAutomation()}
+                  aria-label="Rewind automation on deck ${deck.id}"
+                >
+                  Rewind
+                </button>
+                <span class="automation-time">${deck.automationPosition.toFixed(1)}s</span>`
+            : ''}
+        </div>
+
+        <div class="deck-transport">
           <button
             class="play-pause-button"
-            @click=${this.handlePlayPauseButtonClick}
-            ?disabled=${isLoading}
-            aria-label="${playPauseButtonText} music stream"
+            data-midi-target="play-pause:${deck.id}"
+            @click=${() => deck.togglePlayPause()}
+            ?disabled=${isLoading || isReconnecting}
+            aria-label="${playPauseButtonText} deck ${deck.id}"
           >
             ${playPauseButtonIcon} ${playPauseButtonText}
           </button>
 
           <button
             class="stop-button"
-            @click=${this.stopPlayback}
-            ?disabled=${isStopped || isLoading}
-            aria-label="Stop music stream"
+            data-midi-target="stop:${deck.id}"
+            @click=${() => deck.stop()}
+            ?disabled=${(isStopped || isLoading) && !this.midiLearnActive}
+            aria-label="Stop deck ${deck.id}"
           >
             <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24"><path d="M240-240v-480h480v480H240Z"/></svg>
             Stop
           </button>
 
+          <button
+            class="preset-button"
+            @click=${() => deck.jumpBack()}
+            ?disabled=${isStopped || isLoading}
+            aria-label="Jump back ${deck.jumpBackSeconds} seconds on deck ${deck.id}"
+          >
+            -${deck.jumpBackSeconds}s
+          </button>
+          <button
+            class="preset-button"
+            @click=${() => deck.catchUpToLive()}
+            ?disabled=${isStopped || isLoading || deck.isLive}
+            aria-label="Catch up to live on deck ${deck.id}"
+          >
+            Go live
+          </button>
+          ${isStopped
+            ? ''
+            : html`<span class=${classMap({'live-indicator': true, 'is-live': deck.isLive})}>
+                ${deck.isLive ? 'LIVE' : `-${deck.behindLiveSeconds.toFixed(1)}s`}
+              </span>`}
+
+          <div class="volume-control">
+            <label for="deck-gain-${deck.id}">Gain:</label>
+            <input
+              id="deck-gain-${deck.id}"
+              data-midi-target="deck-gain:${deck.id}"
+              class="deck-gain"
+              type="range"
+              min="0"
+              max="1.5"
+              step="0.01"
+              .value=${deck.gain.toString()}
+              @input=${(e: Event) =>
+                deck.setGain(parseFloat((e.target as HTMLInputElement).value))}
+              aria-label="Gain for deck ${deck.id}"
+            />
+          </div>
+        </div>
+
+        <div class="deck-stats">
+          <label>
+            Latency (ms)
+            <input
+              type="number"
+              min="20"
+              max="2000"
+              step="10"
+              .value=${deck.baseLatencyMs.toString()}
+              @change=${(e: Event) =>
+                deck.setBaseLatency(
+                  Math.min(2000, Math.max(20, parseFloat((e.target as HTMLInputElement).value) || 100)),
+                )}
+              aria-label="Target playout latency for deck ${deck.id}"
+            />
+          </label>
+          <label>
+            Jump (s)
+            <input
+              type="number"
+              min="1"
+              max="300"
+              step="1"
+              .value=${deck.jumpBackSeconds.toString()}
+              @change=${(e: Event) =>
+                deck.setJumpBackSeconds(
+                  Math.min(300, Math.max(1, parseFloat((e.target as HTMLInputElement).value) || 10)),
+                )}
+              aria-label="Jump back length for deck ${deck.id}"
+            />
+          </label>
+          ${isStopped
+            ? ''
+            : html`<span>Now ${Math.round(deck.currentLatencyMs)} ms</span>
+                <span class=${classMap({'underruns': true, 'has-underruns': deck.underruns > 0})}>
+                  Underruns: ${deck.underruns}
+                </span>
+                ${this.renderAnalysis(deck)}`}
+        </div>
+
+        <div class="session-log-area">
+          ${deck.replayLog
+            ? html`<span>
+                  Replaying <span class="replay-name">${deck.replayLogName}</span>
+                </span>
+                <button
+                  class="preset-button"
+                  @click=${() => deck.setReplayLog(null)}
+                  ?disabled=${!isStopped}
+                  aria-label="Stop using session log on deck ${deck.id}"
+                >
+                  Clear replay
+                </button>`
+            : html`<label class="preset-button">
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  @change=${(e: Event) => this.handleReplayFileChange(deck, e)}
+                  ?disabled=${!isStopped}
+                />
+                Load log for replay
+              </label>`}
+          ${deck.sessionLogUrl
+            ? html`<a
+                href=${deck.sessionLogUrl}
+                download="auraspirit-session-log-deck-${deck.id.toLowerCase()}.json"
+                aria-label="Download session log for deck ${deck.id}"
+              >
+                Download session log
+              </a>`
+            : ''}
+        </div>
+      </div>
+    `;
+  }
+
+  override render() {
+    const anyPlaying = this.deckList.some((d) => d.isPlayingOut);
+    const allStopped = this.deckList.every((d) => d.playbackState === 'stopped');
+
+    const recordingDisabled =
+      this.recordingState === 'initializing' ||
+      this.recordingState === 'processing' ||
+      !anyPlaying; // Can only record if a deck is playing
+
+    const recordButtonClasses = classMap({
+      'record-button': true,
+      'recording-active': this.recordingState === 'recording',
+    });
+
+    return html`
+      <div
+        class=${classMap({'main-container': true, 'midi-learn': this.midiLearnActive})}
+        @pointerdown=${{handleEvent: this.handleMidiLearnCapture, capture: true}}
+        @click=${{handleEvent: this.handleMidiLearnCapture, capture: true}}
+        @input=${{handleEvent: this.handleMidiLearnCapture, capture: true}}
+      >
+        <header>
+          <h1>AURALSPIRIT</h1>
+          <p>Steer a continuous stream of music with text prompts</p>
+        </header>
+
+        <section>
+          <div class="prompt-input-area">
+            <input
+              id="promptInput"
+              type="text"
+              placeholder="Enter a prompt, e.g., 'driving synthwave' or 'relaxing piano'"
+              .value=${this.currentPromptInput}
+              @input=${(e: Event) =>
+                (this.currentPromptInput = (e.target as HTMLInputElement).value)}
+              @keydown=${this.handlePromptInputKeyDown}
+              aria-label="Enter music prompt"
+            />
+            <button @click=${this.addPrompt} aria-label="Add prompt to deck ${this.activeDeckId}">
+              <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24"><path d="M440-440H200v-80h240V200h80v240h240v80H520v240h-80v-240Z"/></svg>
+              Add to ${this.activeDeckId}
+            </button>
+            <button
+              class="preset-button"
+              @click=${this.saveCustomPreset}
+              ?disabled=${this.currentPromptInput.trim() === ''}
+              aria-label="Save prompt as preset"
+            >
+              Save preset
+            </button>
+          </div>
+          <div class="prompt-presets">
+            ${map(
+              PROMPT_TEXT_PRESETS,
+              (preset) => html`
+                <button
+                  class="preset-button"
+                  @click=${() => this.addPresetPrompt(preset)}
+                  aria-label="Add preset prompt: ${preset}"
+                >
+                  ${preset}
+                </button>
+              `,
+            )}
+            ${map(
+              this.customPresets,
+              (preset) => html`
+                <div class="scene-item">
+                  <button
+                    class="preset-button custom-preset"
+                    @click=${() => this.addPresetPrompt(preset)}
+                    aria-label="Add custom preset prompt: ${preset}"
+                  >
+                    ${preset}
+                  </button>
+                  <button
+                    class="remove-prompt-button"
+                    @click=${() => this.removeCustomPreset(preset)}
+                    aria-label="Delete custom preset: ${preset}"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24"><path d="m256-200-56-56 224-224-224-224 56-56 224 224 224-224 56 56-224 224 224 224-56 56-224-224-224 224Z"/></svg>
+                  </button>
+                </div>
+              `,
+            )}
+          </div>
+        </section>
+
+        <section class="scenes-area">
+          <div class="scene-controls">
+            <input
+              class="scene-name-input"
+              type="text"
+              placeholder="Scene name"
+              .value=${this.sceneNameInput}
+              @input=${(e: Event) =>
+                (this.sceneNameInput = (e.target as HTMLInputElement).value)}
+              @keydown=${(e: KeyboardEvent) => e.key === 'Enter' && this.saveScene()}
+              aria-label="Scene name"
+            />
+            <button
+              class="preset-button"
+              @click=${this.saveScene}
+              ?disabled=${this.activeDeck.prompts.length === 0}
+              aria-label="Save deck ${this.activeDeckId} as a scene"
+            >
+              Save scene from ${this.activeDeckId}
+            </button>
+            <label>
+              Morph
+              <input
+                type="number"
+                min="0"
+                step="1"
+                .value=${this.morphLength.toString()}
+                @change=${(e: Event) =>
+                  (this.morphLength = Math.max(0, parseFloat((e.target as HTMLInputElement).value) || 0))}
+                aria-label="Morph length"
+              />
+            </label>
+            <select
+              .value=${this.morphUnit}
+              @change=${(e: Event) =>
+                (this.morphUnit = (e.target as HTMLSelectElement).value as MorphUnit)}
+              aria-label="Morph length unit"
+            >
+              <option value="seconds">seconds</option>
+              <option value="bars">bars</option>
+            </select>
+            <label>
+              Tempo
+              <input
+                type="number"
+                min="40"
+                max="240"
+                step="1"
+                .value=${this.tempoBpm.toString()}
+                @change=${(e: Event) =>
+                  (this.tempoBpm = Math.min(240, Math.max(40, parseFloat((e.target as HTMLInputElement).value) || 120)))}
+                aria-label="Tempo in BPM"
+              />
+              BPM
+            </label>
+            <label>
+              Quantize
+              <select
+                @change=${(e: Event) => this.setQuantize((e.target as HTMLSelectElement).value as Quantize)}
+                aria-label="Quantize prompt changes"
+              >
+                ${map(
+                  Object.entries(QUANTIZE_OPTIONS),
+                  ([value, {label}]) => html`<option value=${value} ?selected=${value === this.quantize}>${label}</option>`,
+                )}
+              </select>
+            </label>
+            <select
+              .value=${this.quantizeTempo}
+              @change=${(e: Event) =>
+                (this.quantizeTempo = (e.target as HTMLSelectElement).value as QuantizeTempo)}
+              ?disabled=${this.quantize === 'off'}
+              aria-label="Tempo of the quantize grid"
+            >
+              <option value="set">set tempo</option>
+              <option value="detected">detected tempo</option>
+            </select>
+            ${this.activeDeck.morphProgress !== null
+              ? html`<span class="morph-progress">
+                  Morphing ${Math.round(this.activeDeck.morphProgress * 100)}%
+                </span>`
+              : ''}
+          </div>
+          <div class="scene-list">
+            ${map(
+              this.scenes,
+              (scene) => html`
+                <div class="scene-item">
+                  <button
+                    class="preset-button"
+                    @click=${() => this.recallScene(scene)}
+                    title=${scene.prompts.map((p) => `${p.text} (${p.weight.toFixed(2)})`).join(', ')}
+                    aria-label="Morph deck ${this.activeDeckId} to scene ${scene.name}"
+                  >
+                    ${map(
+                      scene.prompts,
+                      (p) => html`<span class="scene-swatch" style="background-color: ${p.color};"></span>`,
+                    )}
+                    ${scene.name}
+                  </button>
+                  <button
+                    class="remove-prompt-button"
+                    @click=${() => this.deleteScene(scene.sceneId)}
+                    aria-label="Delete scene ${scene.name}"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24"><path d="m256-200-56-56 224-224-224-224 56-56 224 224 224-224 56 56-224 224 224 224-56 56-224-224-224 224Z"/></svg>
+                  </button>
+                </div>
+              `,
+            )}
+          </div>
+        </section>
+
+        <div class="decks">
+          ${map(this.deckList, (deck) => this.renderDeck(deck))}
+        </div>
+
+        <div class="mixer-area">
+          <span>A</span>
+          <input
+            id="crossfader"
+            data-midi-target="crossfader"
+            type="range"
+            min="0"
+            max="1"
+            step="0.01"
+            .value=${this.crossfader.toString()}
+            @input=${this.handleCrossfaderChange}
+            aria-label="Crossfader"
+          />
+          <span>B</span>
+          <select
+            .value=${this.crossfaderCurve}
+            @change=${this.handleCrossfaderCurveChange}
+            aria-label="Crossfader curve"
+          >
+            <option value="equal-power">Equal power</option>
+            <option value="linear">Linear</option>
+          </select>
+        </div>
+
+        <div class="controls-area">
           <div class="volume-control">
             <label for="volume-slider">Volume:</label>
             <input
               id="volume-slider"
+              data-midi-target="volume"
               type="range"
               min="0"
               max="1"
@@ -1181,8 +2825,9 @@ export class MusicLiveStreamApp extends LitElement {
 
           <button
             class=${recordButtonClasses}
+            data-midi-target="record"
             @click=${this.handleRecordButtonClick}
-            ?disabled=${recordingDisabled}
+            ?disabled=${recordingDisabled && !this.midiLearnActive}
             aria-label="${this.recordingState === 'recording' ? 'Stop recording' : 'Start recording'}"
           >
             ${this.recordingState === 'recording'
@@ -1199,19 +2844,175 @@ export class MusicLiveStreamApp extends LitElement {
                   ? 'Processing...'
                   : 'Record'}
           </button>
+
+          <div class="export-format">
+            <select
+              @change=${(e: Event) =>
+                this.updateExportSettings({
+                  format: (e.target as HTMLSelectElement).value as ExportFormat,
+                })}
+              ?disabled=${this.recordingState === 'processing'}
+              aria-label="Recording format"
+            >
+              ${map(
+                Object.entries(EXPORT_FORMATS),
+                ([format, info]) => html`<option
+                  value=${format}
+                  ?selected=${format === this.exportSettings.format}
+                >
+                  ${info.label}
+                </option>`,
+              )}
+            </select>
+            ${this.renderExportQuality()}
+          </div>
+          <div class="export-format">
+            <label>
+              <input
+                type="checkbox"
+                .checked=${this.multitrackEnabled}
+                @change=${(e: Event) =>
+                  (this.multitrackEnabled = (e.target as HTMLInputElement).checked)}
+                ?disabled=${(this.recordingState !== 'idle' && this.recordingState !== 'finished') ||
+                this.inputSourceKind === 'none'}
+              />
+              Input as separate track
+            </label>
+            <label>
+              <input
+                type="checkbox"
+                .checked=${this.mixdownEnabled}
+                @change=${(e: Event) => (this.mixdownEnabled = (e.target as HTMLInputElement).checked)}
+                ?disabled=${!this.multitrackEnabled || this.recordingState === 'processing'}
+              />
+              Mixdown
+            </label>
+          </div>
         </div>
 
-        ${this.recordedAudioUrl
-          ? html`<a
-              class="download-link"
-              href=${this.recordedAudioUrl}
-              download="auraspirit-music.mp3"
-              aria-label="Download recorded music"
+        <div class="input-source-area">
+          <label>
+            Steering input
+            <select
+              @change=${(e: Event) => this.selectInput((e.target as HTMLSelectElement).value)}
+              aria-label="Steering input"
             >
-              <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24"><path d="M480-320 280-520l56-56 104 104v-328h80v328l104-104 56 56-200 200ZM240-160q-33 0-56.5-23.5T160-240v-112h80v112h480v-112h80v112q0 33-23.5 56.5T720-160H240Z"/></svg>
-              Download Recording
-            </a>`
-          : ''}
+              <option value="none" ?selected=${this.inputSourceKind === 'none'}>
+                ${INPUT_SOURCE_KINDS.none}
+              </option>
+              <option
+                value="device:"
+                ?selected=${this.inputSourceKind === 'device' && this.inputDeviceId === ''}
+              >
+                Default input device
+              </option>
+              ${map(
+                this.inputDevices.filter((d) => d.deviceId && d.deviceId !== 'default'),
+                (d, i) => html`<option
+                  value="device:${d.deviceId}"
+                  ?selected=${this.inputSourceKind === 'device' && this.inputDeviceId === d.deviceId}
+                >
+                  ${d.label || `${INPUT_SOURCE_KINDS.device} ${i + 1}`}
+                </option>`,
+              )}
+              <option value="file" ?selected=${this.inputSourceKind === 'file'}>
+                ${INPUT_SOURCE_KINDS.file}${this.inputFileName ? `: ${this.inputFileName}` : ''}
+              </option>
+            </select>
+          </label>
+          ${this.inputSourceKind === 'file'
+            ? html`<label class="preset-button">
+                <input type="file" accept="audio/*" @change=${this.handleInputFileChange} />
+                ${this.inputFileName ? 'Change file' : 'Choose file'}
+              </label>`
+            : ''}
+        </div>
+
+        <section class="effects-area">
+          <effects-rack-panel
+            .settings=${this.effects}
+            .tempoBpm=${this.tempoBpm}
+            @effects-change=${(e: CustomEvent<EffectsSettings>) => this.updateEffects(e.detail)}
+          ></effects-rack-panel>
+        </section>
+
+        <section class="mastering-area">
+          <mastering-panel
+            .settings=${this.masteringSettings}
+            .reading=${this.loudness}
+            @mastering-change=${(e: CustomEvent<MasteringSettings>) => this.updateMastering(e.detail)}
+            @reset-meter=${() => this.mastering?.resetMeter()}
+          ></mastering-panel>
+        </section>
+
+        <section class="visualizer-area">
+          <audio-visualizer
+            .analyser=${this.analyserNode}
+            .mode=${this.visualizer.mode}
+            .fps=${this.visualizer.fps}
+            .color=${this.dominantPromptColor ?? '#2af6de'}
+            @visualizer-change=${(e: CustomEvent<VisualizerSettings>) => (this.visualizer = e.detail)}
+          ></audio-visualizer>
+        </section>
+
+        ${this.renderTalkover()}
+
+        <div class="session-log-area">
+          <label>
+            <input
+              type="checkbox"
+              .checked=${this.sessionLogEnabled}
+              @change=${(e: Event) =>
+                (this.sessionLogEnabled = (e.target as HTMLInputElement).checked)}
+              ?disabled=${!allStopped}
+            />
+            Capture session logs
+          </label>
+          <button
+            class="preset-button"
+            @click=${this.exportSet}
+            aria-label="Export set as JSON"
+          >
+            Export set
+          </button>
+          <label class="preset-button">
+            <input
+              type="file"
+              accept="application/json,.json"
+              @change=${this.handleSetFileChange}
+            />
+            Import set
+          </label>
+        </div>
+
+        <section class="take-library-area">
+          <h2>Takes</h2>
+          <take-library
+            .takes=${this.takes}
+            @rename-take=${(e: CustomEvent<RenameTakeDetail>) => this.renameTake(e.detail)}
+            @edit-take=${(e: CustomEvent<string>) => this.openEditor(e.detail)}
+            @delete-takes=${(e: CustomEvent<string[]>) => this.removeTakes(e.detail)}
+          ></take-library>
+          ${this.editingTake && this.editingAudio
+            ? html`<take-editor
+                .audio=${this.editingAudio}
+                .metadata=${this.editingTake.metadata}
+                .name=${this.editingTake.name}
+                .busy=${this.editorBusy}
+                @apply-edit=${(e: CustomEvent<TakeEdit>) => this.applyTakeEdit(e.detail)}
+                @split-take=${(e: CustomEvent<SplitTakeDetail>) => this.splitTake(e.detail)}
+                @close-editor=${this.closeEditor}
+              ></take-editor>`
+            : ''}
+        </section>
+
+        ${this.renderMidiPanel()}
+
+        <notification-center
+          .reports=${this.errorReports}
+          @dismiss-report=${(e: CustomEvent<string>) => this.dismissErrorReport(e.detail)}
+          @clear-reports=${() => (this.errorReports = [])}
+        ></notification-center>
       </div>
     `;
   }
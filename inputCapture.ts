@@ -0,0 +1,83 @@
+/// <reference types="vite/client" />
+/**
+ * @fileoverview Steering input capture through the capture AudioWorklet.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {Blob as MediaBlob} from '@google/genai';
+import type {CaptureChunk, CaptureProcessorOptions} from './captureWorklet';
+import captureWorkletUrl from './captureWorklet?worker&url';
+import {encode} from './utils';
+
+/** Sample rate the live session expects for input audio. */
+export const INPUT_SAMPLE_RATE = 16000;
+// 256 ms per blob at 16 kHz, the same batch the ScriptProcessor used to send.
+const BATCH_SIZE = 4096;
+
+const contextsWithModule = new WeakSet<BaseAudioContext>();
+
+/**
+ * Streams whatever node is set as the source into 16 kHz mono PCM blobs.
+ * Downmixing, resampling and conversion run on the audio rendering thread;
+ * only the base64 encoding of each batch happens here. The source can be
+ * swapped or removed at any time; with no source, nothing is sent.
+ */
+export class InputCapture {
+  private source: AudioNode | null = null;
+
+  private constructor(
+    private readonly node: AudioWorkletNode,
+    private readonly monitor: MediaStreamAudioDestinationNode,
+  ) {}
+
+  static async start(context: AudioContext, onChunk: (chunk: MediaBlob) => void): Promise<InputCapture> {
+    if (!contextsWithModule.has(context)) {
+      await context.audioWorklet.addModule(captureWorkletUrl);
+      contextsWithModule.add(context);
+    }
+    const processorOptions: CaptureProcessorOptions = {
+      targetRate: INPUT_SAMPLE_RATE,
+      batchSize: BATCH_SIZE,
+    };
+    // With no outputs the node is pulled by the graph without being routed
+    // to the speakers.
+    const node = new AudioWorkletNode(context, 'capture-processor', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      processorOptions,
+    });
+    const mimeType = `audio/pcm;rate=${INPUT_SAMPLE_RATE}`;
+    node.port.onmessage = (e: MessageEvent<CaptureChunk>) => {
+      const {samples} = e.data;
+      onChunk({data: encode(new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength)), mimeType});
+    };
+    return new InputCapture(node, context.createMediaStreamDestination());
+  }
+
+  /**
+   * The current input as a stream, for use on other contexts. It keeps
+   * running across source changes and is silent without a source.
+   */
+  get stream(): MediaStream {
+    return this.monitor.stream;
+  }
+
+  setSource(source: AudioNode | null) {
+    if (this.source) {
+      this.source.disconnect(this.node);
+      this.source.disconnect(this.monitor);
+    }
+    this.source = source;
+    source?.connect(this.node);
+    source?.connect(this.monitor);
+  }
+
+  stop() {
+    this.setSource(null);
+    this.node.port.onmessage = null;
+    this.node.port.close();
+    this.node.disconnect();
+    this.monitor.disconnect();
+  }
+}
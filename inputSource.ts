@@ -0,0 +1,65 @@
+/**
+ * @fileoverview The audio that steers the live sessions: an input device, a
+ * looping audio file, or nothing for text-only steering.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {AppError} from './errors';
+
+export type InputSourceKind = 'none' | 'device' | 'file';
+
+export const INPUT_SOURCE_KINDS: Record<InputSourceKind, string> = {
+  none: 'No input',
+  device: 'Input device',
+  file: 'Audio file',
+};
+
+/** A source node on the input context and how to release it. */
+export interface OpenInput {
+  node: AudioNode;
+  close(): void;
+}
+
+/**
+ * Audio input devices. Labels are empty until the page has been allowed to
+ * use a microphone once.
+ */
+export async function listInputDevices(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((d) => d.kind === 'audioinput');
+}
+
+/** Opens an input device; an empty `deviceId` is the system default. */
+export async function openDeviceInput(context: AudioContext, deviceId: string): Promise<OpenInput> {
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({
+      audio: deviceId ? {deviceId: {exact: deviceId}} : true,
+    });
+  } catch (error) {
+    throw new AppError('mic-permission', undefined, {cause: error});
+  }
+  const node = context.createMediaStreamSource(stream);
+  return {
+    node,
+    close() {
+      node.disconnect();
+      stream.getTracks().forEach((track) => track.stop());
+    },
+  };
+}
+
+/** Plays a decoded file in a loop, without routing it to the speakers. */
+export function openFileInput(context: AudioContext, buffer: AudioBuffer): OpenInput {
+  const node = new AudioBufferSourceNode(context, {buffer, loop: true});
+  node.start();
+  return {
+    node,
+    close() {
+      node.stop();
+      node.disconnect();
+    },
+  };
+}
@@ -0,0 +1,242 @@
+/**
+ * @fileoverview Loudness measurement after ITU-R BS.1770 (as used by EBU
+ * R128): K-weighting, gated block loudness, sample and true peak. Shared by
+ * the main thread and the mastering worklet.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** Loudness of silence, returned instead of -Infinity. */
+export const SILENCE_LUFS = -70;
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+const BLOCK_SECONDS = 0.4;
+const BLOCK_STEP_SECONDS = 0.1;
+const TRUE_PEAK_OVERSAMPLING = 4;
+const TRUE_PEAK_TAPS_PER_PHASE = 12;
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/**
+ * The two K-weighting stages, a high shelf and a high pass, for any sample
+ * rate. Coefficients follow the analog prototypes of BS.1770 so they match
+ * the reference at 48 kHz.
+ */
+function kWeightingStages(sampleRate: number): [Biquad, Biquad] {
+  let k = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let q = 0.7071752369554196;
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let a0 = 1 + k / q + k * k;
+  const shelf: Biquad = {
+    b0: (vh + (vb * k) / q + k * k) / a0,
+    b1: (2 * (k * k - vh)) / a0,
+    b2: (vh - (vb * k) / q + k * k) / a0,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  };
+  k = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  q = 0.5003270373238773;
+  a0 = 1 + k / q + k * k;
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  };
+  return [shelf, highPass];
+}
+
+/** Streaming K-weighting filter for one channel. */
+export class KWeightingFilter {
+  private readonly stages: [Biquad, Biquad];
+  // Direct form I state per stage: x[n-1], x[n-2], y[n-1], y[n-2].
+  private readonly state = [new Float64Array(4), new Float64Array(4)];
+
+  constructor(sampleRate: number) {
+    this.stages = kWeightingStages(sampleRate);
+  }
+
+  process(input: Float32Array, out = new Float32Array(input.length)): Float32Array {
+    for (let i = 0; i < input.length; i++) {
+      let x = input[i];
+      for (let s = 0; s < 2; s++) {
+        const {b0, b1, b2, a1, a2} = this.stages[s];
+        const z = this.state[s];
+        const y = b0 * x + b1 * z[0] + b2 * z[1] - a1 * z[2] - a2 * z[3];
+        z[1] = z[0];
+        z[0] = x;
+        z[3] = z[2];
+        z[2] = y;
+        x = y;
+      }
+      out[i] = x;
+    }
+    return out;
+  }
+}
+
+/** Loudness in LUFS of a block from its per-channel mean squares. */
+export function blockLoudness(meanSquares: number[]): number {
+  const sum = meanSquares.reduce((a, b) => a + b, 0);
+  return sum > 0 ? Math.max(SILENCE_LUFS, -0.691 + 10 * Math.log10(sum)) : SILENCE_LUFS;
+}
+
+/**
+ * Integrated loudness from the K-weighted mean squares of overlapping 400 ms
+ * blocks, with the absolute and relative gates of BS.1770.
+ */
+export function gatedLoudness(blocks: number[][]): number {
+  const loudness = (b: number[]) => -0.691 + 10 * Math.log10(b.reduce((x, y) => x + y, 0));
+  const meanOf = (list: number[][]) => {
+    const sums = list.map((b) => b.reduce((x, y) => x + y, 0));
+    return sums.reduce((a, b) => a + b, 0) / sums.length;
+  };
+  const aboveAbsolute = blocks.filter((b) => loudness(b) > ABSOLUTE_GATE);
+  if (aboveAbsolute.length === 0) return SILENCE_LUFS;
+  const threshold = -0.691 + 10 * Math.log10(meanOf(aboveAbsolute)) + RELATIVE_GATE;
+  const gated = aboveAbsolute.filter((b) => loudness(b) > threshold);
+  if (gated.length === 0) return SILENCE_LUFS;
+  return Math.max(SILENCE_LUFS, -0.691 + 10 * Math.log10(meanOf(gated)));
+}
+
+/** Integrated loudness of planar audio in LUFS. */
+export function integratedLoudness(channels: Float32Array[], sampleRate: number): number {
+  const weighted = channels.map((c) => new KWeightingFilter(sampleRate).process(c));
+  const blockSize = Math.round(BLOCK_SECONDS * sampleRate);
+  const step = Math.round(BLOCK_STEP_SECONDS * sampleRate);
+  const blocks: number[][] = [];
+  for (let start = 0; start + blockSize <= (weighted[0]?.length ?? 0); start += step) {
+    blocks.push(
+      weighted.map((channel) => {
+        let sum = 0;
+        for (let i = start; i < start + blockSize; i++) {
+          sum += channel[i] * channel[i];
+        }
+        return sum / blockSize;
+      }),
+    );
+  }
+  return gatedLoudness(blocks);
+}
+
+/** Seconds of audio in each block a `LoudnessMeter` is fed. */
+export const METER_BLOCK_SECONDS = BLOCK_STEP_SECONDS;
+
+/**
+ * Momentary (400 ms), short-term (3 s) and integrated loudness of a stream,
+ * fed with the K-weighted mean squares of consecutive 100 ms blocks.
+ */
+export class LoudnessMeter {
+  private recent: number[][] = [];
+  private readonly gatingBlocks: number[][] = [];
+  /** Largest true peak seen, as a linear value. */
+  truePeak = 0;
+
+  addBlock(meanSquares: number[], truePeak: number) {
+    this.recent.push(meanSquares);
+    if (this.recent.length > 30) this.recent.shift();
+    if (this.recent.length >= 4) {
+      this.gatingBlocks.push(this.average(4));
+    }
+    this.truePeak = Math.max(this.truePeak, truePeak);
+  }
+
+  get momentary(): number {
+    return this.recent.length >= 4 ? blockLoudness(this.average(4)) : SILENCE_LUFS;
+  }
+
+  get shortTerm(): number {
+    return this.recent.length >= 30 ? blockLoudness(this.average(30)) : SILENCE_LUFS;
+  }
+
+  get integrated(): number {
+    return gatedLoudness(this.gatingBlocks);
+  }
+
+  reset() {
+    this.recent = [];
+    this.gatingBlocks.length = 0;
+    this.truePeak = 0;
+  }
+
+  /** Per-channel mean squares of the last `count` blocks. */
+  private average(count: number): number[] {
+    const blocks = this.recent.slice(-count);
+    return blocks[0].map((_, c) => blocks.reduce((sum, b) => sum + b[c], 0) / blocks.length);
+  }
+}
+
+/** Polyphase windowed-sinc interpolator, each phase normalized to unity gain. */
+function truePeakPhases(): Float32Array[] {
+  const length = TRUE_PEAK_OVERSAMPLING * TRUE_PEAK_TAPS_PER_PHASE;
+  const center = (length - 1) / 2;
+  const taps = Array.from({length}, (_, i) => {
+    const x = (i - center) / TRUE_PEAK_OVERSAMPLING;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * (i + 0.5)) / length);
+    return sinc * window;
+  });
+  return Array.from({length: TRUE_PEAK_OVERSAMPLING}, (_, phase) => {
+    const coefficients = new Float32Array(TRUE_PEAK_TAPS_PER_PHASE);
+    for (let j = 0; j < TRUE_PEAK_TAPS_PER_PHASE; j++) {
+      coefficients[j] = taps[j * TRUE_PEAK_OVERSAMPLING + phase];
+    }
+    const sum = coefficients.reduce((a, b) => a + b, 0);
+    return coefficients.map((c) => c / sum);
+  });
+}
+
+/** Samples by which a `TruePeakDetector` estimate trails its input. */
+export const TRUE_PEAK_LATENCY = TRUE_PEAK_TAPS_PER_PHASE / 2;
+
+/** True peak of one channel by 4x oversampling, after BS.1770 Annex 2. */
+export class TruePeakDetector {
+  private static phases: Float32Array[] | null = null;
+  private readonly phases = (TruePeakDetector.phases ??= truePeakPhases());
+  private readonly history = new Float32Array(TRUE_PEAK_TAPS_PER_PHASE);
+  private position = 0;
+
+  /** Takes the next sample and returns the largest interpolated magnitude. */
+  next(sample: number): number {
+    this.history[this.position] = sample;
+    this.position = (this.position + 1) % TRUE_PEAK_TAPS_PER_PHASE;
+    let peak = 0;
+    for (const coefficients of this.phases) {
+      let sum = 0;
+      for (let j = 0; j < TRUE_PEAK_TAPS_PER_PHASE; j++) {
+        // history[position - 1 - j] is the j-th most recent sample.
+        const index = (this.position - 1 - j + 2 * TRUE_PEAK_TAPS_PER_PHASE) % TRUE_PEAK_TAPS_PER_PHASE;
+        sum += coefficients[j] * this.history[index];
+      }
+      peak = Math.max(peak, Math.abs(sum));
+    }
+    return peak;
+  }
+}
+
+/** Largest absolute sample value across channels. */
+export function samplePeak(channels: Float32Array[]): number {
+  let peak = 0;
+  for (const channel of channels) {
+    for (let i = 0; i < channel.length; i++) {
+      peak = Math.max(peak, Math.abs(channel[i]));
+    }
+  }
+  return peak;
+}
+
+export function toDecibels(gain: number): number {
+  return gain > 0 ? 20 * Math.log10(gain) : -Infinity;
+}
+
+export function fromDecibels(db: number): number {
+  return Math.pow(10, db / 20);
+}
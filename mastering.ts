@@ -0,0 +1,122 @@
+/// <reference types="vite/client" />
+/**
+ * @fileoverview Output bus mastering: the limiter with auto-gain in the
+ * signal path, and an R128 meter on its output.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {LoudnessMeter, toDecibels} from './loudness';
+import type {LimiterMessage, MeterMessage} from './masteringWorklet';
+import masteringWorkletUrl from './masteringWorklet?worker&url';
+
+export interface MasteringSettings {
+  limiter: boolean;
+  /** True-peak ceiling in dBTP. */
+  ceiling: number;
+  /** Limiter release in milliseconds. */
+  release: number;
+  autoGain: boolean;
+  /** Loudness auto-gain holds, in LUFS. */
+  target: number;
+}
+
+export const DEFAULT_MASTERING: MasteringSettings = {
+  limiter: true,
+  ceiling: -1,
+  release: 100,
+  autoGain: false,
+  target: -14,
+};
+
+/** Meter values in LUFS and dB; silence reads as -Infinity or the floor. */
+export interface LoudnessReading {
+  momentary: number;
+  shortTerm: number;
+  integrated: number;
+  /** Highest true peak since the last reset, in dBTP. */
+  truePeak: number;
+  /** Current limiter gain reduction in dB. */
+  gainReduction: number;
+  /** Current auto-gain in dB. */
+  autoGain: number;
+}
+
+const contextsWithModule = new WeakSet<BaseAudioContext>();
+
+export class Mastering {
+  private readonly meter = new LoudnessMeter();
+  private gainReduction = 0;
+  private autoGain = 0;
+
+  private constructor(
+    /** Route the bus through this node. */
+    readonly node: AudioWorkletNode,
+    private readonly meterNode: AudioWorkletNode,
+    onReading: (reading: LoudnessReading) => void,
+  ) {
+    node.port.onmessage = (e: MessageEvent<LimiterMessage>) => {
+      this.gainReduction = e.data.gainReduction;
+      this.autoGain = e.data.autoGain;
+    };
+    meterNode.port.onmessage = (e: MessageEvent<MeterMessage>) => {
+      this.meter.addBlock(e.data.meanSquares, e.data.truePeak);
+      onReading(this.reading);
+    };
+  }
+
+  /** Creates the limiter and starts metering what it puts out. */
+  static async start(
+    context: BaseAudioContext,
+    onReading: (reading: LoudnessReading) => void,
+  ): Promise<Mastering> {
+    if (!contextsWithModule.has(context)) {
+      await context.audioWorklet.addModule(masteringWorkletUrl);
+      contextsWithModule.add(context);
+    }
+    const node = new AudioWorkletNode(context, 'limiter-processor', {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      outputChannelCount: [2],
+      channelCount: 2,
+      channelCountMode: 'explicit',
+    });
+    const meterNode = new AudioWorkletNode(context, 'loudness-meter-processor', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+    });
+    node.connect(meterNode);
+    return new Mastering(node, meterNode, onReading);
+  }
+
+  get reading(): LoudnessReading {
+    return {
+      momentary: this.meter.momentary,
+      shortTerm: this.meter.shortTerm,
+      integrated: this.meter.integrated,
+      truePeak: toDecibels(this.meter.truePeak),
+      gainReduction: this.gainReduction,
+      autoGain: this.autoGain,
+    };
+  }
+
+  apply(settings: MasteringSettings) {
+    const param = (name: string) => this.node.parameters.get(name)!;
+    param('limit').value = settings.limiter ? 1 : 0;
+    param('ceiling').value = settings.ceiling;
+    param('release').value = settings.release / 1000;
+    param('autoGain').value = settings.autoGain ? 1 : 0;
+    param('target').value = settings.target;
+  }
+
+  /** Starts integrated loudness and the peak hold over. */
+  resetMeter() {
+    this.meter.reset();
+  }
+
+  stop() {
+    this.node.disconnect();
+    this.node.port.onmessage = null;
+    this.meterNode.port.onmessage = null;
+  }
+}
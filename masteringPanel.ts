@@ -0,0 +1,178 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {css, html, LitElement} from 'lit';
+import {customElement, property} from 'lit/decorators.js';
+import {classMap} from 'lit/directives/class-map.js';
+import {styleMap} from 'lit/directives/style-map.js';
+
+import {SILENCE_LUFS} from './loudness';
+import type {LoudnessReading, MasteringSettings} from './mastering';
+
+// Range of the loudness bars.
+const BAR_MIN = -40;
+const BAR_MAX = 0;
+
+function formatLevel(value: number, unit: string): string {
+  return value <= SILENCE_LUFS || !Number.isFinite(value) ? `-∞ ${unit}` : `${value.toFixed(1)} ${unit}`;
+}
+
+// MasteringPanel component
+// -----------------------------------------------------------------------------
+/**
+ * EBU R128 readout of the output bus with the limiter and auto-gain
+ * controls. The host owns the settings (`mastering-change`) and resets the
+ * meter on `reset-meter`.
+ */
+@customElement('mastering-panel')
+export class MasteringPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      gap: 16px;
+      flex-wrap: wrap;
+      justify-content: center;
+      align-items: center;
+      color: #ccc;
+      font-size: 1.6vmin;
+    }
+    .meters {
+      display: grid;
+      grid-template-columns: auto 160px auto;
+      gap: 4px 8px;
+      align-items: center;
+      font-variant-numeric: tabular-nums;
+    }
+    .bar {
+      height: 8px;
+      border-radius: 4px;
+      background-color: #0006;
+      overflow: hidden;
+    }
+    .bar div {
+      height: 100%;
+      background-color: #2af6de;
+      transition: width 0.1s linear;
+    }
+    .value.over {
+      color: #ff25f6;
+    }
+    .controls {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+    }
+    label {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+    }
+    input[type='number'] {
+      width: 60px;
+    }
+    button,
+    input[type='number'] {
+      padding: 2px 6px;
+      border: 1px solid #555;
+      border-radius: 6px;
+      background-color: #3a3a3a;
+      color: #e0e0e0;
+      font-size: inherit;
+    }
+    button {
+      cursor: pointer;
+    }
+  `;
+
+  @property({attribute: false}) settings!: MasteringSettings;
+  @property({attribute: false}) reading: LoudnessReading | null = null;
+
+  private change(changes: Partial<MasteringSettings>) {
+    this.dispatchEvent(
+      new CustomEvent<MasteringSettings>('mastering-change', {detail: {...this.settings, ...changes}}),
+    );
+  }
+
+  private numberInput(
+    label: string,
+    value: number,
+    min: number,
+    max: number,
+    step: number,
+    onChange: (value: number) => void,
+  ) {
+    return html`<label>
+      ${label}
+      <input
+        type="number"
+        min=${min}
+        max=${max}
+        step=${step}
+        .value=${value.toString()}
+        @change=${(e: Event) => {
+          const parsed = parseFloat((e.target as HTMLInputElement).value);
+          if (!Number.isNaN(parsed)) onChange(Math.max(min, Math.min(max, parsed)));
+        }}
+      />
+    </label>`;
+  }
+
+  private renderMeter(label: string, value: number) {
+    const fraction = (Math.max(BAR_MIN, Math.min(BAR_MAX, value)) - BAR_MIN) / (BAR_MAX - BAR_MIN);
+    return html`
+      <span>${label}</span>
+      <div class="bar"><div style=${styleMap({width: `${fraction * 100}%`})}></div></div>
+      <span class="value">${formatLevel(value, 'LUFS')}</span>
+    `;
+  }
+
+  override render() {
+    if (!this.settings) return html``;
+    const reading = this.reading;
+    const {settings} = this;
+    return html`
+      <div class="meters">
+        ${this.renderMeter('M', reading?.momentary ?? SILENCE_LUFS)}
+        ${this.renderMeter('S', reading?.shortTerm ?? SILENCE_LUFS)}
+        <span>I</span>
+        <span class="value">${formatLevel(reading?.integrated ?? SILENCE_LUFS, 'LUFS')}</span>
+        <button @click=${() => this.dispatchEvent(new CustomEvent('reset-meter'))}>Reset</button>
+        <span>TP</span>
+        <span
+          class=${classMap({value: true, over: (reading?.truePeak ?? -Infinity) > settings.ceiling})}
+        >
+          ${formatLevel(reading?.truePeak ?? -Infinity, 'dBTP')}
+        </span>
+        <span class="value">
+          GR ${(reading?.gainReduction ?? 0).toFixed(1)} dB
+          ${settings.autoGain ? html`· AG ${(reading?.autoGain ?? 0).toFixed(1)} dB` : ''}
+        </span>
+      </div>
+      <div class="controls">
+        <label>
+          <input
+            type="checkbox"
+            .checked=${settings.limiter}
+            @change=${(e: Event) => this.change({limiter: (e.target as HTMLInputElement).checked})}
+          />
+          Limiter
+        </label>
+        ${this.numberInput('Ceiling (dBTP)', settings.ceiling, -20, 0, 0.1, (ceiling) => this.change({ceiling}))}
+        ${this.numberInput('Release (ms)', settings.release, 1, 2000, 10, (release) => this.change({release}))}
+      </div>
+      <div class="controls">
+        <label>
+          <input
+            type="checkbox"
+            .checked=${settings.autoGain}
+            @change=${(e: Event) => this.change({autoGain: (e.target as HTMLInputElement).checked})}
+          />
+          Auto-gain
+        </label>
+        ${this.numberInput('Target (LUFS)', settings.target, -40, 0, 0.5, (target) => this.change({target}))}
+      </div>
+    `;
+  }
+}
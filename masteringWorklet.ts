@@ -0,0 +1,258 @@
+/**
+ * @fileoverview AudioWorklet processors for the output bus: a look-ahead
+ * true-peak limiter with auto-gain, and an R128 loudness meter.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  blockLoudness,
+  KWeightingFilter,
+  METER_BLOCK_SECONDS,
+  TRUE_PEAK_LATENCY,
+  TruePeakDetector,
+} from './loudness';
+
+// Globals of the AudioWorkletGlobalScope, which lib.dom does not describe.
+declare const sampleRate: number;
+interface AudioParamDescriptor {
+  name: string;
+  defaultValue?: number;
+  minValue?: number;
+  maxValue?: number;
+  automationRate?: AutomationRate;
+}
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: (new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor) & {
+    parameterDescriptors?: AudioParamDescriptor[];
+  },
+): void;
+
+/** Delay of the limiter, which is how far ahead it sees peaks. */
+export const LOOKAHEAD_SECONDS = 0.005;
+// Auto-gain stays within this range and moves at most this fast.
+const AUTO_GAIN_MIN_DB = -20;
+const AUTO_GAIN_MAX_DB = 12;
+const AUTO_GAIN_DB_PER_SECOND = 3;
+// Short-term loudness below this is a pause, during which auto-gain holds.
+const AUTO_GAIN_GATE_LUFS = -50;
+const SHORT_TERM_BLOCKS = 30;
+
+/** Status posted by the limiter once per meter block. */
+export interface LimiterMessage {
+  /** Largest gain reduction of the block, in dB, as a positive number. */
+  gainReduction: number;
+  /** Current auto-gain in dB. */
+  autoGain: number;
+}
+
+/** K-weighted mean squares and true peak posted by the meter per block. */
+export interface MeterMessage {
+  meanSquares: number[];
+  truePeak: number;
+}
+
+function frames(seconds: number): number {
+  return Math.max(1, Math.round(seconds * sampleRate));
+}
+
+/**
+ * Brings the input to a target loudness (when auto-gain is on), then keeps
+ * its true peak under the ceiling. The gain for each sample is the lowest
+ * one needed within the look-ahead window, averaged over the same window,
+ * so it has fully come down by the time the peak leaves the delay line.
+ */
+class LimiterProcessor extends AudioWorkletProcessor {
+  static parameterDescriptors: AudioParamDescriptor[] = [
+    {name: 'limit', defaultValue: 1, minValue: 0, maxValue: 1, automationRate: 'k-rate'},
+    {name: 'ceiling', defaultValue: -1, minValue: -20, maxValue: 0, automationRate: 'k-rate'},
+    {name: 'release', defaultValue: 0.1, minValue: 0.001, maxValue: 2, automationRate: 'k-rate'},
+    {name: 'autoGain', defaultValue: 0, minValue: 0, maxValue: 1, automationRate: 'k-rate'},
+    {name: 'target', defaultValue: -14, minValue: -40, maxValue: 0, automationRate: 'k-rate'},
+  ];
+
+  private readonly window = frames(LOOKAHEAD_SECONDS);
+  // The audio also waits for the true-peak estimate, which lags a little.
+  private readonly delayLength = this.window + TRUE_PEAK_LATENCY;
+  private readonly delay: Float32Array[] = [];
+  private delayPosition = 0;
+  private readonly detectors: TruePeakDetector[] = [];
+  private readonly weighting: KWeightingFilter[] = [];
+  private weighted: Float32Array[] = [];
+  private silence = new Float32Array(128);
+  private readonly required = new Float32Array(this.window);
+  private readonly smoothing = new Float32Array(this.window);
+  private smoothingSum = this.window;
+  private position = 0;
+  private envelope = 1;
+
+  // Auto-gain state: loudness of recent blocks and the gain in dB.
+  private readonly blockSize = frames(METER_BLOCK_SECONDS);
+  private blockFrames = 0;
+  private blockSums: number[] = [];
+  private recentBlocks: number[][] = [];
+  private autoGainDb = 0;
+  private targetGainDb = 0;
+  private blockReduction = 1;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    this.required.fill(1);
+    this.smoothing.fill(1);
+  }
+
+  private ensureChannels(count: number) {
+    while (this.delay.length < count) {
+      this.delay.push(new Float32Array(this.delayLength));
+      this.detectors.push(new TruePeakDetector());
+      this.weighting.push(new KWeightingFilter(sampleRate));
+      this.weighted.push(new Float32Array(128));
+      this.blockSums.push(0);
+    }
+  }
+
+  process(
+    inputs: Float32Array[][],
+    outputs: Float32Array[][],
+    parameters: Record<string, Float32Array>,
+  ): boolean {
+    const input = inputs[0] ?? [];
+    const output = outputs[0];
+    this.ensureChannels(output.length);
+    const limit = parameters.limit[0] >= 0.5;
+    const ceiling = Math.pow(10, parameters.ceiling[0] / 20);
+    const release = Math.exp(-1 / (parameters.release[0] * sampleRate));
+    const autoGain = parameters.autoGain[0] >= 0.5;
+    const target = parameters.target[0];
+    const maxStep = AUTO_GAIN_DB_PER_SECOND / sampleRate;
+    const length = output[0].length;
+    if (this.silence.length !== length) {
+      this.silence = new Float32Array(length);
+      this.weighted = this.weighted.map(() => new Float32Array(length));
+    }
+    // Auto-gain listens to the input before its own gain.
+    const channels = output.map((_, c) => input[c] ?? this.silence);
+    channels.forEach((channel, c) => this.weighting[c].process(channel, this.weighted[c]));
+
+    for (let i = 0; i < length; i++) {
+      // Auto-gain glides towards the gain the last blocks asked for.
+      const wantedDb = autoGain ? this.targetGainDb : 0;
+      this.autoGainDb += Math.max(-maxStep, Math.min(maxStep, wantedDb - this.autoGainDb));
+      const gain = Math.pow(10, this.autoGainDb / 20);
+
+      let peak = 0;
+      for (let c = 0; c < output.length; c++) {
+        const sample = channels[c][i] * gain;
+        const weighted = this.weighted[c][i];
+        this.blockSums[c] += weighted * weighted;
+        peak = Math.max(peak, this.detectors[c].next(sample));
+        // The delayed sample comes out while the new one goes in.
+        output[c][i] = this.delay[c][this.delayPosition];
+        this.delay[c][this.delayPosition] = sample;
+      }
+      this.delayPosition = (this.delayPosition + 1) % this.delayLength;
+
+      this.required[this.position] = limit && peak > ceiling ? ceiling / peak : 1;
+      let lowest = 1;
+      for (let j = 0; j < this.window; j++) {
+        lowest = Math.min(lowest, this.required[j]);
+      }
+      this.envelope = lowest <= this.envelope ? lowest : release * this.envelope + (1 - release) * lowest;
+      this.smoothingSum += this.envelope - this.smoothing[this.position];
+      this.smoothing[this.position] = this.envelope;
+      const applied = Math.min(1, this.smoothingSum / this.window);
+      this.blockReduction = Math.min(this.blockReduction, applied);
+      for (let c = 0; c < output.length; c++) {
+        output[c][i] *= applied;
+      }
+      this.position = (this.position + 1) % this.window;
+
+      if (++this.blockFrames === this.blockSize) {
+        this.endBlock(target);
+      }
+    }
+    return true;
+  }
+
+  private endBlock(target: number) {
+    this.recentBlocks.push(this.blockSums.map((sum) => sum / this.blockSize));
+    if (this.recentBlocks.length > SHORT_TERM_BLOCKS) this.recentBlocks.shift();
+    const channels = this.recentBlocks[0].length;
+    const mean = Array.from(
+      {length: channels},
+      (_, c) => this.recentBlocks.reduce((sum, b) => sum + b[c], 0) / this.recentBlocks.length,
+    );
+    const loudness = blockLoudness(mean);
+    if (loudness > AUTO_GAIN_GATE_LUFS) {
+      this.targetGainDb = Math.max(AUTO_GAIN_MIN_DB, Math.min(AUTO_GAIN_MAX_DB, target - loudness));
+    }
+    const message: LimiterMessage = {
+      gainReduction: -20 * Math.log10(this.blockReduction),
+      autoGain: this.autoGainDb,
+    };
+    this.port.postMessage(message);
+    this.blockSums.fill(0);
+    this.blockFrames = 0;
+    this.blockReduction = 1;
+  }
+}
+
+/** Posts the K-weighted mean squares and true peak of every 100 ms block. */
+class LoudnessMeterProcessor extends AudioWorkletProcessor {
+  private readonly blockSize = frames(METER_BLOCK_SECONDS);
+  private filters: KWeightingFilter[] = [];
+  private detectors: TruePeakDetector[] = [];
+  private sums: number[] = [];
+  private peak = 0;
+  private filled = 0;
+  private weighted = new Float32Array(128);
+
+  process(inputs: Float32Array[][]): boolean {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) {
+      return true;
+    }
+    if (this.filters.length !== channels.length) {
+      this.filters = channels.map(() => new KWeightingFilter(sampleRate));
+      this.detectors = channels.map(() => new TruePeakDetector());
+      this.sums = channels.map(() => 0);
+      this.filled = 0;
+    }
+    const length = channels[0].length;
+    if (this.weighted.length !== length) {
+      this.weighted = new Float32Array(length);
+    }
+    for (let offset = 0; offset < length; ) {
+      const count = Math.min(length - offset, this.blockSize - this.filled);
+      channels.forEach((channel, c) => {
+        const part = channel.subarray(offset, offset + count);
+        const weighted = this.filters[c].process(part, this.weighted.subarray(0, count));
+        for (let i = 0; i < count; i++) {
+          this.sums[c] += weighted[i] * weighted[i];
+          this.peak = Math.max(this.peak, this.detectors[c].next(part[i]));
+        }
+      });
+      this.filled += count;
+      offset += count;
+      if (this.filled === this.blockSize) {
+        const message: MeterMessage = {
+          meanSquares: this.sums.map((sum) => sum / this.blockSize),
+          truePeak: this.peak,
+        };
+        this.port.postMessage(message);
+        this.sums.fill(0);
+        this.peak = 0;
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('limiter-processor', LimiterProcessor);
+registerProcessor('loudness-meter-processor', LoudnessMeterProcessor);
@@ -0,0 +1,202 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {describe, expect, it} from 'vitest';
+import {
+  type MidiMapping,
+  MidiMapper,
+  type MidiMappings,
+  type MidiTarget,
+  type MidiTargetHandler,
+  targetKey,
+} from './midiMapping';
+
+const CONTROLLER = 'Acme Pad';
+
+class FakeInput extends EventTarget {
+  readonly type = 'input';
+  readonly state = 'connected';
+
+  constructor(
+    readonly id: string,
+    readonly name: string,
+  ) {
+    super();
+  }
+
+  send(...bytes: number[]) {
+    const event = new Event('midimessage');
+    Object.defineProperty(event, 'data', {value: Uint8Array.from(bytes)});
+    this.dispatchEvent(event);
+  }
+}
+
+class FakeAccess extends EventTarget {
+  readonly inputs = new Map<string, FakeInput>();
+
+  connect(input: FakeInput) {
+    this.inputs.set(input.id, input);
+    const event = new Event('statechange');
+    Object.defineProperty(event, 'port', {value: input});
+    this.dispatchEvent(event);
+  }
+}
+
+/** Records values and triggers by target key. */
+class FakeHandler implements MidiTargetHandler {
+  readonly values = new Map<string, number>();
+  readonly triggers: string[] = [];
+
+  getValue(target: MidiTarget) {
+    return this.values.get(targetKey(target)) ?? 0;
+  }
+
+  setValue(target: MidiTarget, value: number) {
+    this.values.set(targetKey(target), value);
+  }
+
+  trigger(target: MidiTarget) {
+    this.triggers.push(targetKey(target));
+  }
+}
+
+function setUp(mappings: MidiMapping[] = []) {
+  const access = new FakeAccess();
+  const input = new FakeInput('1', CONTROLLER);
+  access.inputs.set(input.id, input);
+  const handler = new FakeHandler();
+  const changes: MidiMappings[] = [];
+  const mapper = new MidiMapper(
+    access as unknown as MIDIAccess,
+    handler,
+    mappings.length > 0 ? {[CONTROLLER]: mappings} : {},
+    (m) => changes.push(m),
+  );
+  return {access, input, handler, changes, mapper};
+}
+
+const VOLUME: MidiTarget = {kind: 'volume'};
+const RECORD: MidiTarget = {kind: 'record'};
+
+describe('MidiMapper', () => {
+  it('learns the next control that moves', () => {
+    const {input, handler, changes, mapper} = setUp();
+    mapper.learn(VOLUME);
+    // A note off does not count as a press.
+    input.send(0x80, 60, 0);
+    expect(mapper.learning).toEqual(VOLUME);
+    input.send(0xb1, 7, 64);
+    expect(mapper.learning).toBeNull();
+    expect(mapper.getMappings()).toEqual({
+      [CONTROLLER]: [{source: {type: 'cc', channel: 1, number: 7}, target: VOLUME, mode: 'absolute'}],
+    });
+    expect(changes).toHaveLength(1);
+    // The learning message itself is not applied.
+    expect(handler.values.size).toBe(0);
+  });
+
+  it('scales absolute CC values to the target range', () => {
+    const weight: MidiTarget = {kind: 'weight', deckId: 'A', promptId: 'p1'};
+    const {input, handler} = setUp([
+      {source: {type: 'cc', channel: 0, number: 7}, target: VOLUME, mode: 'absolute'},
+      {source: {type: 'cc', channel: 0, number: 8}, target: weight, mode: 'absolute'},
+    ]);
+    input.send(0xb0, 7, 127);
+    expect(handler.values.get('volume')).toBe(1);
+    input.send(0xb0, 8, 127);
+    expect(handler.values.get(targetKey(weight))).toBe(2);
+    input.send(0xb0, 7, 0);
+    expect(handler.values.get('volume')).toBe(0);
+  });
+
+  it('steps relative CC values and clamps them', () => {
+    const {input, handler} = setUp([
+      {source: {type: 'cc', channel: 0, number: 7}, target: VOLUME, mode: 'relative'},
+    ]);
+    handler.values.set('volume', 0.5);
+    input.send(0xb0, 7, 1);
+    expect(handler.values.get('volume')).toBeCloseTo(0.51);
+    input.send(0xb0, 7, 127);
+    input.send(0xb0, 7, 127);
+    expect(handler.values.get('volume')).toBeCloseTo(0.49);
+    input.send(0xb0, 7, 63);
+    input.send(0xb0, 7, 63);
+    expect(handler.values.get('volume')).toBe(1);
+  });
+
+  it('maps pitch bend over its 14-bit range', () => {
+    const {input, handler} = setUp([
+      {source: {type: 'pitchbend', channel: 0, number: 0}, target: {kind: 'crossfader'}, mode: 'absolute'},
+    ]);
+    input.send(0xe0, 0x7f, 0x7f);
+    expect(handler.values.get('crossfader')).toBe(1);
+    input.send(0xe0, 0x00, 0x40);
+    expect(handler.values.get('crossfader')).toBeCloseTo(8192 / 16383);
+  });
+
+  it('fires note triggers on every note on', () => {
+    const {input, handler} = setUp([
+      {source: {type: 'note', channel: 0, number: 36}, target: RECORD, mode: 'absolute'},
+    ]);
+    input.send(0x90, 36, 100);
+    input.send(0x80, 36, 0);
+    input.send(0x90, 36, 0);
+    input.send(0x90, 36, 90);
+    expect(handler.triggers).toEqual(['record', 'record']);
+  });
+
+  it('fires CC and pitch-bend triggers only when crossing the midpoint upwards', () => {
+    const {input, handler} = setUp([
+      {source: {type: 'cc', channel: 0, number: 20}, target: RECORD, mode: 'absolute'},
+      {source: {type: 'pitchbend', channel: 0, number: 0}, target: {kind: 'stop', deckId: 'B'}, mode: 'absolute'},
+    ]);
+    for (const value of [100, 110, 127, 20, 0, 100]) {
+      input.send(0xb0, 20, value);
+    }
+    expect(handler.triggers).toEqual(['record', 'record']);
+    handler.triggers.length = 0;
+    input.send(0xe0, 0x7f, 0x7f);
+    input.send(0xe0, 0x00, 0x70);
+    input.send(0xe0, 0x00, 0x00);
+    input.send(0xe0, 0x7f, 0x7f);
+    expect(handler.triggers).toEqual(['stop:B', 'stop:B']);
+  });
+
+  it('fires relative CC triggers on each step up', () => {
+    const {input, handler} = setUp([
+      {source: {type: 'cc', channel: 0, number: 20}, target: RECORD, mode: 'relative'},
+    ]);
+    input.send(0xb0, 20, 1);
+    input.send(0xb0, 20, 127);
+    input.send(0xb0, 20, 2);
+    expect(handler.triggers).toEqual(['record', 'record']);
+  });
+
+  it('listens to inputs connected later', () => {
+    const {access, handler, mapper} = setUp();
+    const late = new FakeInput('2', 'Late Knobs');
+    access.connect(late);
+    expect(mapper.controllers).toEqual([CONTROLLER, 'Late Knobs']);
+    mapper.learn(VOLUME);
+    late.send(0xb0, 1, 0);
+    late.send(0xb0, 1, 127);
+    expect(handler.values.get('volume')).toBe(1);
+    // Reconnecting the same input does not double its messages.
+    access.connect(late);
+    mapper.learn(RECORD);
+    late.send(0x90, 40, 100);
+    late.send(0x90, 40, 100);
+    expect(handler.triggers).toEqual(['record']);
+  });
+
+  it('stops listening when disposed', () => {
+    const {input, handler, mapper} = setUp([
+      {source: {type: 'cc', channel: 0, number: 7}, target: VOLUME, mode: 'absolute'},
+    ]);
+    mapper.dispose();
+    input.send(0xb0, 7, 127);
+    expect(handler.values.size).toBe(0);
+  });
+});
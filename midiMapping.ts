@@ -0,0 +1,273 @@
+/**
+ * @fileoverview Web MIDI controller mapping with MIDI-learn.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {DeckId} from './deck';
+
+export type MidiSourceType = 'cc' | 'note' | 'pitchbend';
+
+/** A physical control on a controller. `number` is 0 for pitch bend. */
+export interface MidiSource {
+  type: MidiSourceType;
+  channel: number;
+  number: number;
+}
+
+export type MidiTarget =
+  | {kind: 'weight'; deckId: DeckId; promptId: string}
+  | {kind: 'deck-gain'; deckId: DeckId}
+  | {kind: 'play-pause'; deckId: DeckId}
+  | {kind: 'stop'; deckId: DeckId}
+  | {kind: 'volume'}
+  | {kind: 'crossfader'}
+  | {kind: 'record'};
+
+/**
+ * How a CC value is read. Relative encoders send two's complement deltas:
+ * 1-63 turn up, 65-127 (that is -63 to -1) turn down.
+ */
+export type EncoderMode = 'absolute' | 'relative';
+
+export interface MidiMapping {
+  source: MidiSource;
+  target: MidiTarget;
+  mode: EncoderMode;
+}
+
+/** Mappings keyed by controller, see `controllerKey`. */
+export type MidiMappings = Record<string, MidiMapping[]>;
+
+/** The value range of a continuous target, or null for a trigger. */
+export function targetRange(target: MidiTarget): [number, number] | null {
+  switch (target.kind) {
+    case 'weight':
+      return [0, 2];
+    case 'deck-gain':
+      return [0, 1.5];
+    case 'volume':
+    case 'crossfader':
+      return [0, 1];
+    default:
+      return null;
+  }
+}
+
+/** A stable string form of a target, used as a DOM attribute during learn. */
+export function targetKey(target: MidiTarget): string {
+  switch (target.kind) {
+    case 'weight':
+      return `weight:${target.deckId}:${target.promptId}`;
+    case 'deck-gain':
+    case 'play-pause':
+    case 'stop':
+      return `${target.kind}:${target.deckId}`;
+    default:
+      return target.kind;
+  }
+}
+
+export function parseTargetKey(key: string): MidiTarget | null {
+  const [kind, deckId, ...rest] = key.split(':');
+  const deck = deckId === 'A' || deckId === 'B' ? deckId : null;
+  switch (kind) {
+    case 'weight':
+      return deck && rest.length > 0 ? {kind, deckId: deck, promptId: rest.join(':')} : null;
+    case 'deck-gain':
+    case 'play-pause':
+    case 'stop':
+      return deck ? {kind, deckId: deck} : null;
+    case 'volume':
+    case 'crossfader':
+    case 'record':
+      return {kind};
+    default:
+      return null;
+  }
+}
+
+export function controllerKey(input: MIDIInput): string {
+  return [input.manufacturer, input.name].filter(Boolean).join(' ') || input.id;
+}
+
+/** A decoded channel message. `value` is the raw 7-bit or 14-bit value. */
+export interface MidiEvent {
+  source: MidiSource;
+  value: number;
+  /** `value` scaled to [0, 1]. */
+  normalized: number;
+}
+
+/** Decodes CC, note and pitch-bend messages; returns null for anything else. */
+export function parseMidiMessage(data: Uint8Array): MidiEvent | null {
+  if (data.length < 3) return null;
+  const status = data[0] & 0xf0;
+  const channel = data[0] & 0x0f;
+  switch (status) {
+    case 0xb0:
+      return {source: {type: 'cc', channel, number: data[1]}, value: data[2], normalized: data[2] / 127};
+    case 0x90:
+    case 0x80: {
+      // Note on with velocity 0 is a note off.
+      const velocity = status === 0x90 ? data[2] : 0;
+      return {source: {type: 'note', channel, number: data[1]}, value: velocity, normalized: velocity / 127};
+    }
+    case 0xe0: {
+      const value = (data[2] << 7) | data[1];
+      return {source: {type: 'pitchbend', channel, number: 0}, value, normalized: value / 16383};
+    }
+    default:
+      return null;
+  }
+}
+
+function sameSource(a: MidiSource, b: MidiSource) {
+  return a.type === b.type && a.channel === b.channel && a.number === b.number;
+}
+
+/** Decodes a two's complement relative encoder value into a step count. */
+export function relativeDelta(value: number): number {
+  return value < 64 ? value : value - 128;
+}
+
+/** Receives the actions produced by mapped controls. */
+export interface MidiTargetHandler {
+  getValue(target: MidiTarget): number;
+  setValue(target: MidiTarget, value: number): void;
+  trigger(target: MidiTarget): void;
+}
+
+// Size of one relative encoder step, as a fraction of the target's range.
+const RELATIVE_STEP = 1 / 100;
+
+/**
+ * Routes messages from every input of a `MIDIAccess` to mapped targets. The
+ * access object is injected so the mapper can be driven by synthetic messages.
+ */
+export class MidiMapper {
+  private learnTarget: MidiTarget | null = null;
+  /** Whether each trigger's control is past its midpoint, by mapping. */
+  private readonly triggerStates = new Map<string, boolean>();
+  private readonly listener = (e: Event) => this.handleMessage(e as MIDIMessageEvent);
+
+  constructor(
+    private readonly access: MIDIAccess,
+    private readonly handler: MidiTargetHandler,
+    private mappings: MidiMappings = {},
+    private readonly onMappingsChange: (mappings: MidiMappings) => void = () => {},
+  ) {
+    this.access.inputs.forEach((input) => this.attach(input));
+    this.access.addEventListener('statechange', this.handleStateChange);
+  }
+
+  get learning(): MidiTarget | null {
+    return this.learnTarget;
+  }
+
+  /** Names of the controllers currently connected. */
+  get controllers(): string[] {
+    const names: string[] = [];
+    this.access.inputs.forEach((input) => names.push(controllerKey(input)));
+    return names;
+  }
+
+  getMappings(): MidiMappings {
+    return this.mappings;
+  }
+
+  /** Binds the next control that moves to `target`, or cancels with null. */
+  learn(target: MidiTarget | null) {
+    this.learnTarget = target;
+  }
+
+  setMode(controller: string, index: number, mode: EncoderMode) {
+    this.updateMappings(controller, (list) =>
+      list.map((m, i) => (i === index ? {...m, mode} : m)),
+    );
+  }
+
+  removeMapping(controller: string, index: number) {
+    this.updateMappings(controller, (list) => list.filter((_, i) => i !== index));
+  }
+
+  dispose() {
+    this.access.inputs.forEach((input) => input.removeEventListener('midimessage', this.listener));
+    this.access.removeEventListener('statechange', this.handleStateChange);
+  }
+
+  private attach(input: MIDIInput) {
+    // Adding the same listener twice is a no-op, so reconnects are safe.
+    input.addEventListener('midimessage', this.listener);
+  }
+
+  private handleStateChange = (e: Event) => {
+    const port = (e as MIDIConnectionEvent).port;
+    if (port?.type === 'input' && port.state === 'connected') {
+      this.attach(port as MIDIInput);
+    }
+  };
+
+  private handleMessage(e: MIDIMessageEvent) {
+    if (!e.data) return;
+    const event = parseMidiMessage(e.data);
+    if (!event) return;
+    const controller = controllerKey(e.target as MIDIInput);
+
+    if (this.learnTarget) {
+      // Ignore releases so a button is learned on press, not on let go.
+      if (event.source.type === 'note' && event.value === 0) return;
+      const target = this.learnTarget;
+      this.learnTarget = null;
+      this.updateMappings(controller, (list) => [
+        ...list.filter(
+          (m) => !sameSource(m.source, event.source) && targetKey(m.target) !== targetKey(target),
+        ),
+        {source: event.source, target, mode: 'absolute'},
+      ]);
+      return;
+    }
+
+    for (const mapping of this.mappings[controller] ?? []) {
+      if (sameSource(mapping.source, event.source)) {
+        this.apply(controller, mapping, event);
+      }
+    }
+  }
+
+  private apply(controller: string, mapping: MidiMapping, event: MidiEvent) {
+    const range = targetRange(mapping.target);
+    if (!range) {
+      const {source} = mapping;
+      // A relative encoder has no position; every step up is a press.
+      if (mapping.mode === 'relative' && source.type === 'cc') {
+        if (relativeDelta(event.value) > 0) this.handler.trigger(mapping.target);
+        return;
+      }
+      // Other triggers fire on press: a note on, or a CC or bend crossing
+      // its midpoint upwards. A fader moving above the midpoint fires once.
+      const key = `${controller}|${source.type}:${source.channel}:${source.number}|${targetKey(mapping.target)}`;
+      const pressed = source.type === 'note' ? event.value > 0 : event.normalized > 0.5;
+      const wasPressed = this.triggerStates.get(key) ?? false;
+      this.triggerStates.set(key, pressed);
+      if (pressed && (source.type === 'note' || !wasPressed)) {
+        this.handler.trigger(mapping.target);
+      }
+      return;
+    }
+    const [min, max] = range;
+    let value: number;
+    if (mapping.mode === 'relative' && event.source.type === 'cc') {
+      const step = relativeDelta(event.value) * RELATIVE_STEP * (max - min);
+      value = this.handler.getValue(mapping.target) + step;
+    } else {
+      value = min + event.normalized * (max - min);
+    }
+    this.handler.setValue(mapping.target, Math.max(min, Math.min(max, value)));
+  }
+
+  private updateMappings(controller: string, update: (list: MidiMapping[]) => MidiMapping[]) {
+    this.mappings = {...this.mappings, [controller]: update(this.mappings[controller] ?? [])};
+    this.onMappingsChange(this.mappings);
+  }
+}
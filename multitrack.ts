@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Sample-aligned recording of several nodes of one context as
+ * separate tracks.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {PcmRecorder, type RecordedAudio} from './pcmRecorder';
+
+export type TrackName = 'output' | 'input';
+
+export const TRACK_LABELS: Record<TrackName | 'mixdown', string> = {
+  output: 'output',
+  input: 'input',
+  mixdown: 'mixdown',
+};
+
+export interface TrackSource {
+  name: TrackName;
+  node: AudioNode;
+  /** Channels recorded for this track; the node is up- or downmixed to it. */
+  channelCount: number;
+}
+
+export interface RecordedTrack {
+  name: TrackName;
+  audio: RecordedAudio;
+}
+
+/**
+ * Records several nodes through one recorder, each into its own channels of
+ * a channel merger, so every track starts on the same sample.
+ */
+export class MultitrackRecorder {
+  private constructor(
+    private readonly recorder: PcmRecorder,
+    private readonly tracks: TrackSource[],
+    private readonly inputs: GainNode[],
+    private readonly merger: ChannelMergerNode,
+  ) {}
+
+  static async start(context: BaseAudioContext, tracks: TrackSource[]): Promise<MultitrackRecorder> {
+    const totalChannels = tracks.reduce((sum, t) => sum + t.channelCount, 0);
+    const merger = context.createChannelMerger(totalChannels);
+    const inputs: GainNode[] = [];
+    let channel = 0;
+    for (const track of tracks) {
+      // Fixes the channel count, so a mono input or a stereo bus fill exactly
+      // the channels reserved for them.
+      const input = new GainNode(context, {
+        channelCount: track.channelCount,
+        channelCountMode: 'explicit',
+        channelInterpretation: 'speakers',
+      });
+      const splitter = context.createChannelSplitter(track.channelCount);
+      track.node.connect(input);
+      input.connect(splitter);
+      for (let i = 0; i < track.channelCount; i++) {
+        splitter.connect(merger, i, channel++);
+      }
+      inputs.push(input);
+    }
+    const recorder = await PcmRecorder.start(context, merger, totalChannels);
+    return new MultitrackRecorder(recorder, tracks, inputs, merger);
+  }
+
+  get duration(): number {
+    return this.recorder.duration;
+  }
+
+  async stop(): Promise<RecordedTrack[]> {
+    const {sampleRate, channels} = await this.recorder.stop();
+    this.tracks.forEach((track, i) => track.node.disconnect(this.inputs[i]));
+    this.inputs.forEach((input) => input.disconnect());
+    this.merger.disconnect();
+    let channel = 0;
+    return this.tracks.map((track) => {
+      const trackChannels = channels.slice(channel, channel + track.channelCount);
+      channel += track.channelCount;
+      return {name: track.name, audio: {sampleRate, channels: trackChannels}};
+    });
+  }
+}
+
+/**
+ * Sums tracks at unity gain into stereo. Mono tracks go to both sides; the
+ * sum may exceed full scale, which float and lossy exports keep.
+ */
+export function mixdown(tracks: RecordedTrack[]): RecordedAudio {
+  const sampleRate = tracks[0]?.audio.sampleRate ?? 0;
+  const length = Math.max(0, ...tracks.map((t) => t.audio.channels[0]?.length ?? 0));
+  const channels = [new Float32Array(length), new Float32Array(length)];
+  for (const {audio} of tracks) {
+    channels.forEach((out, side) => {
+      const source = audio.channels[Math.min(side, audio.channels.length - 1)];
+      for (let i = 0; i < source.length; i++) {
+        out[i] += source[i];
+      }
+    });
+  }
+  return {sampleRate, channels};
+}
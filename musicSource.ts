@@ -0,0 +1,226 @@
+/**
+ * @fileoverview Pluggable backends that stream generated music to the app.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  type Blob,
+  GoogleGenAI,
+  type LiveConnectConfig,
+  type LiveSendRealtimeInputParameters,
+  type LiveServerMessage,
+  Modality,
+} from '@google/genai';
+import type {LiveMusicGenerationConfig, WeightedPrompt} from './types';
+import {encode} from './utils';
+
+// Using 'gemini-2.5-flash-native-audio-preview-09-2025' as it is a supported Live API model.
+export const LIVE_MUSIC_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+/** Sample rate of the PCM audio every backend delivers. */
+export const OUTPUT_SAMPLE_RATE = 24000;
+
+/** Callbacks a backend invokes over the lifetime of a session. */
+export interface MusicSourceCallbacks {
+  onopen?: () => void;
+  onmessage: (message: LiveServerMessage) => void;
+  /** Called by recorded sessions when the recording changed its prompts. */
+  onconfig?: (config: LiveMusicGenerationConfig) => void;
+  onerror?: (e: ErrorEvent) => void;
+  onclose?: (e: CloseEvent) => void;
+}
+
+/** Realtime input accepted by a running session. */
+export interface MusicRealtimeInput {
+  musicGenerationConfig?: LiveMusicGenerationConfig;
+  media?: Blob;
+}
+
+/** A connected music session. */
+export interface MusicSession {
+  sendRealtimeInput(input: MusicRealtimeInput): void;
+  close(): void;
+}
+
+export interface MusicSourceConnectParams {
+  config: LiveMusicGenerationConfig;
+  callbacks: MusicSourceCallbacks;
+}
+
+/** A backend that can open music sessions. */
+export interface MusicSource {
+  readonly kind: string;
+  connect(params: MusicSourceConnectParams): Promise<MusicSession>;
+}
+
+/** The backends that can be picked in the UI. */
+export type MusicSourceKind = 'gemini' | 'synthetic';
+
+// Gemini backend
+// -----------------------------------------------------------------------------
+/** Streams music from the Gemini Live API. */
+export class GeminiMusicSource implements MusicSource {
+  readonly kind = 'gemini';
+  private readonly ai: GoogleGenAI;
+
+  constructor(apiKey = process.env.API_KEY) {
+    this.ai = new GoogleGenAI({apiKey});
+  }
+
+  async connect({config, callbacks}: MusicSourceConnectParams): Promise<MusicSession> {
+    const session = await this.ai.live.connect({
+      model: LIVE_MUSIC_MODEL,
+      callbacks,
+      // Fix: musicGenerationConfig is not part of the published LiveConnectConfig type.
+      config: {
+        responseModalities: [Modality.AUDIO],
+        musicGenerationConfig: config,
+      } as LiveConnectConfig,
+    });
+    return {
+      sendRealtimeInput: (input) =>
+        session.sendRealtimeInput(input as LiveSendRealtimeInputParameters),
+      close: () => session.close(),
+    };
+  }
+}
+
+// Synthetic backend
+// -----------------------------------------------------------------------------
+/** Tempo of the synthetic backend's pulse. */
+export const SYNTHETIC_BPM = 120;
+const SYNTHETIC_CHUNK_SECONDS = 0.5;
+// A minor pentatonic, in semitones above A.
+const SCALE = [0, 3, 5, 7, 10];
+
+function hashText(text: string): number {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+/**
+ * Renders mono PCM for the given prompts, starting at absolute frame
+ * `startFrame`. Each prompt becomes a voice whose pitch and tremolo are derived
+ * from its text and whose level follows its share of the total weight, over a
+ * kick pulse at `SYNTHETIC_BPM`. Output depends only on the arguments, so
+ * consecutive chunks join without discontinuities.
+ */
+export function synthesizePcm(
+  prompts: WeightedPrompt[],
+  startFrame: number,
+  frameCount: number,
+  sampleRate = OUTPUT_SAMPLE_RATE,
+): Int16Array {
+  const totalWeight = prompts.reduce((sum, p) => sum + Math.max(0, p.weight), 0);
+  const voices = prompts
+    .filter((p) => p.weight > 0)
+    .map((p) => {
+      const hash = hashText(p.text.toLowerCase());
+      const semitone = SCALE[hash % SCALE.length] + 12 * ((hash >> 4) % 3);
+      return {
+        frequency: 110 * Math.pow(2, semitone / 12),
+        tremoloRate: 0.5 + ((hash >> 8) % 8) / 2,
+        brightness: ((hash >> 12) % 4) / 4,
+        level: (0.5 * p.weight) / Math.max(1, totalWeight),
+      };
+    });
+  const framesPerBeat = Math.round((60 / SYNTHETIC_BPM) * sampleRate);
+
+  const pcm = new Int16Array(frameCount);
+  for (let i = 0; i < frameCount; i++) {
+    const frame = startFrame + i;
+    const t = frame / sampleRate;
+    let sample = 0;
+    for (const voice of voices) {
+      const phase = 2 * Math.PI * voice.frequency * t;
+      const tone = Math.sin(phase) + voice.brightness * 0.5 * Math.sin(2 * phase);
+      const tremolo = 0.75 + 0.25 * Math.sin(2 * Math.PI * voice.tremoloRate * t);
+      sample += voice.level * tone * tremolo;
+    }
+    const beatT = (frame % framesPerBeat) / sampleRate;
+    sample += 0.4 * Math.exp(-beatT * 25) * Math.sin(2 * Math.PI * (50 + 100 * Math.exp(-beatT * 40)) * beatT);
+
+    const clipped = Math.max(-1, Math.min(1, sample));
+    pcm[i] = clipped < 0 ? clipped * 32768 : clipped * 32767;
+  }
+  return pcm;
+}
+
+class SyntheticMusicSession implements MusicSession {
+  private frame = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private closed = false;
+
+  constructor(
+    private config: LiveMusicGenerationConfig,
+    private readonly callbacks: MusicSourceCallbacks,
+  ) {}
+
+  open() {
+    setTimeout(() => {
+      if (this.closed) return;
+      this.callbacks.onopen?.();
+      this.emitChunk();
+      this.timer = setInterval(() => this.emitChunk(), SYNTHETIC_CHUNK_SECONDS * 1000);
+    }, 0);
+  }
+
+  sendRealtimeInput(input: MusicRealtimeInput) {
+    // Media input is accepted but does not steer the synthetic output.
+    if (input.musicGenerationConfig) {
+      this.config = input.musicGenerationConfig;
+    }
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.callbacks.onclose?.(new CloseEvent('close', {code: 1000, wasClean: true}));
+  }
+
+  private emitChunk() {
+    const frameCount = Math.round(SYNTHETIC_CHUNK_SECONDS * OUTPUT_SAMPLE_RATE);
+    const pcm = synthesizePcm(this.config.weightedPrompts, this.frame, frameCount);
+    this.frame += frameCount;
+    this.callbacks.onmessage({
+      serverContent: {
+        modelTurn: {
+          parts: [
+            {
+              inlineData: {
+                data: encode(new Uint8Array(pcm.buffer)),
+                mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`,
+              },
+            },
+          ],
+        },
+      },
+    } as LiveServerMessage);
+  }
+}
+
+/**
+ * Generates music locally without a network connection or API key, so the
+ * playback and recording paths can be exercised offline.
+ */
+export class SyntheticMusicSource implements MusicSource {
+  readonly kind = 'synthetic';
+
+  async connect({config, callbacks}: MusicSourceConnectParams): Promise<MusicSession> {
+    const session = new SyntheticMusicSession(config, callbacks);
+    session.open();
+    return session;
+  }
+}
+
+export function createMusicSource(kind: MusicSourceKind): MusicSource {
+  return kind === 'gemini' ? new GeminiMusicSource() : new SyntheticMusicSource();
+}
@@ -0,0 +1,214 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {css, html, LitElement, type PropertyValues} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+import {map} from 'lit/directives/map.js';
+
+import {type ErrorReport, serializeErrorReports} from './errors';
+
+// How long a toast stays up unless dismissed.
+const TOAST_DURATION_MS = 8000;
+
+// NotificationCenter component
+// -----------------------------------------------------------------------------
+/**
+ * Shows new error reports as toasts and keeps the full list in a collapsible
+ * history panel. The history itself belongs to the host: the panel fires
+ * `dismiss-report` with the report id and `clear-reports` to change it.
+ */
+@customElement('notification-center')
+export class NotificationCenter extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+    }
+    .toasts {
+      position: fixed;
+      right: 16px;
+      bottom: 16px;
+      z-index: 10;
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      max-width: min(360px, 90vw);
+    }
+    .toast,
+    .report {
+      position: relative;
+      padding: 10px 32px 10px 12px;
+      border-left: 4px solid #ff7f50;
+      border-radius: 6px;
+      background-color: #2a2a2a;
+      color: #e0e0e0;
+      font-size: 14px;
+      box-shadow: 0 4px 12px #0008;
+    }
+    .title {
+      font-weight: bold;
+      margin-bottom: 4px;
+    }
+    .suggestion {
+      color: #aaa;
+      margin-top: 4px;
+    }
+    .meta {
+      color: #888;
+      font-size: 12px;
+      margin-bottom: 4px;
+    }
+    .close {
+      position: absolute;
+      top: 6px;
+      right: 6px;
+      border: none;
+      background: none;
+      color: #aaa;
+      font-size: 16px;
+      cursor: pointer;
+    }
+    .close:hover {
+      color: #fff;
+    }
+    .history-bar {
+      display: flex;
+      gap: 10px;
+      align-items: center;
+      justify-content: center;
+    }
+    .history-bar button {
+      padding: 6px 12px;
+      border: 1px solid #555;
+      border-radius: 15px;
+      background-color: #3a3a3a;
+      color: #e0e0e0;
+      cursor: pointer;
+    }
+    .history-bar button:hover:not(:disabled) {
+      background-color: #4a4a4a;
+    }
+    .history-bar button:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+    .history {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      margin-top: 10px;
+      max-height: 300px;
+      overflow-y: auto;
+    }
+    .report {
+      box-shadow: none;
+    }
+    details {
+      margin-top: 4px;
+      color: #aaa;
+    }
+    pre {
+      white-space: pre-wrap;
+      word-break: break-word;
+      font-size: 11px;
+    }
+  `;
+
+  @property({attribute: false}) reports: ErrorReport[] = [];
+
+  @state() private toasts: ErrorReport[] = [];
+  @state() private historyOpen = false;
+  private seen = new Set<string>();
+
+  override willUpdate(changed: PropertyValues<this>) {
+    if (!changed.has('reports')) return;
+    const fresh = this.reports.filter((r) => !this.seen.has(r.id));
+    for (const report of fresh) {
+      this.seen.add(report.id);
+      setTimeout(() => this.hideToast(report.id), TOAST_DURATION_MS);
+    }
+    if (fresh.length > 0) {
+      this.toasts = [...this.toasts, ...fresh];
+    }
+  }
+
+  private hideToast(id: string) {
+    this.toasts = this.toasts.filter((t) => t.id !== id);
+  }
+
+  private dismissReport(id: string) {
+    this.hideToast(id);
+    this.dispatchEvent(new CustomEvent<string>('dismiss-report', {detail: id}));
+  }
+
+  private clearReports() {
+    this.toasts = [];
+    this.dispatchEvent(new CustomEvent('clear-reports'));
+  }
+
+  private exportReports() {
+    const url = URL.createObjectURL(serializeErrorReports(this.reports));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `auraspirit-errors-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private renderReport(report: ErrorReport, onClose: () => void) {
+    return html`
+      <div class="title">${report.title}</div>
+      <div>${report.message}</div>
+      <div class="suggestion">${report.suggestion}</div>
+      <button class="close" @click=${onClose} aria-label="Dismiss">×</button>
+    `;
+  }
+
+  override render() {
+    return html`
+      <div class="toasts" role="status" aria-live="polite">
+        ${map(
+          this.toasts,
+          (toast) => html`<div class="toast">
+            ${this.renderReport(toast, () => this.hideToast(toast.id))}
+          </div>`,
+        )}
+      </div>
+      <div class="history-bar">
+        <button
+          @click=${() => (this.historyOpen = !this.historyOpen)}
+          aria-expanded=${this.historyOpen}
+        >
+          ${this.historyOpen ? 'Hide' : 'Show'} notifications (${this.reports.length})
+        </button>
+        <button @click=${this.exportReports} ?disabled=${this.reports.length === 0}>
+          Export
+        </button>
+        <button @click=${this.clearReports} ?disabled=${this.reports.length === 0}>
+          Clear
+        </button>
+      </div>
+      ${this.historyOpen
+        ? html`<div class="history">
+            ${this.reports.length === 0 ? html`<div class="meta">No errors so far.</div>` : ''}
+            ${map(
+              [...this.reports].reverse(),
+              (report) => html`<div class="report">
+                <div class="meta">
+                  ${new Date(report.time).toLocaleTimeString()} · ${report.source}
+                </div>
+                ${this.renderReport(report, () => this.dismissReport(report.id))}
+                ${report.detail
+                  ? html`<details>
+                      <summary>Details</summary>
+                      <pre>${report.detail}</pre>
+                    </details>`
+                  : ''}
+              </div>`,
+            )}
+          </div>`
+        : ''}
+    `;
+  }
+}
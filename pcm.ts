@@ -0,0 +1,133 @@
+/**
+ * @fileoverview Dependency-free PCM helpers, shared by the main thread and the
+ * capture worklet.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** Converts float samples in [-1, 1] to Int16, clipping anything outside. */
+export function floatToInt16(data: Float32Array, out = new Int16Array(data.length)): Int16Array {
+  for (let i = 0; i < data.length; i++) {
+    const sample = Math.max(-1, Math.min(1, data[i]));
+    out[i] = sample < 0 ? sample * 32768 : sample * 32767;
+  }
+  return out;
+}
+
+/** Averages the channels of a planar frame block into one mono block. */
+export function downmix(channels: Float32Array[], out?: Float32Array): Float32Array {
+  const length = channels[0]?.length ?? 0;
+  const mono = out ?? new Float32Array(length);
+  if (channels.length === 1) {
+    mono.set(channels[0]);
+    return mono;
+  }
+  mono.fill(0);
+  for (const channel of channels) {
+    for (let i = 0; i < length; i++) {
+      mono[i] += channel[i];
+    }
+  }
+  for (let i = 0; i < length; i++) {
+    mono[i] /= channels.length;
+  }
+  return mono;
+}
+
+/**
+ * One section of a low-pass cascade, after the RBJ cookbook, in transposed
+ * direct form II.
+ */
+class LowpassSection {
+  private readonly b0: number;
+  private readonly b1: number;
+  private readonly b2: number;
+  private readonly a1: number;
+  private readonly a2: number;
+  private z1 = 0;
+  private z2 = 0;
+
+  constructor(cutoff: number, q: number, sampleRate: number) {
+    const w = (2 * Math.PI * cutoff) / sampleRate;
+    const alpha = Math.sin(w) / (2 * q);
+    const cos = Math.cos(w);
+    const a0 = 1 + alpha;
+    this.b0 = (1 - cos) / 2 / a0;
+    this.b1 = (1 - cos) / a0;
+    this.b2 = this.b0;
+    this.a1 = (-2 * cos) / a0;
+    this.a2 = (1 - alpha) / a0;
+  }
+
+  next(x: number): number {
+    const y = this.b0 * x + this.z1;
+    this.z1 = this.b1 * x - this.a1 * y + this.z2;
+    this.z2 = this.b2 * x - this.a2 * y;
+    return y;
+  }
+}
+
+// Order of the anti-aliasing Butterworth low-pass: 48 dB per octave.
+const ANTI_ALIAS_ORDER = 8;
+
+/**
+ * Streaming sample-rate converter. Downsampling first runs an 8th order
+ * Butterworth low-pass below the target Nyquist, then interpolates
+ * linearly; state carries across blocks so the output is seamless. Nothing
+ * is allocated per block, so it is safe on the audio rendering thread.
+ */
+export class Resampler {
+  private readonly step: number;
+  private readonly filter: LowpassSection[] = [];
+  private position = 0;
+  private previous = 0;
+  private buffer = new Float32Array(0);
+
+  constructor(
+    readonly inputRate: number,
+    readonly outputRate: number,
+  ) {
+    this.step = inputRate / outputRate;
+    if (inputRate > outputRate) {
+      const cutoff = outputRate * 0.4;
+      // Butterworth poles split into sections with these Qs.
+      for (let k = 1; k <= ANTI_ALIAS_ORDER / 2; k++) {
+        const q = 1 / (2 * Math.cos(((2 * k - 1) * Math.PI) / (2 * ANTI_ALIAS_ORDER)));
+        this.filter.push(new LowpassSection(cutoff, q, inputRate));
+      }
+    }
+  }
+
+  /** Holds the samples of the last `process` call, from index 0. */
+  get output(): Float32Array {
+    return this.buffer;
+  }
+
+  /** Resamples one block and returns how many output samples it completed. */
+  process(input: Float32Array): number {
+    const capacity = Math.ceil(input.length / this.step) + 1;
+    if (this.buffer.length < capacity) {
+      this.buffer = new Float32Array(capacity);
+    }
+    if (this.inputRate === this.outputRate) {
+      this.buffer.set(input);
+      return input.length;
+    }
+    let count = 0;
+    for (let i = 0; i < input.length; i++) {
+      let current = input[i];
+      for (const section of this.filter) {
+        current = section.next(current);
+      }
+      // Emit every output sample that falls between the previous and the
+      // current input sample. `position` is relative to the previous sample.
+      while (this.position <= 1) {
+        this.buffer[count++] = this.previous + (current - this.previous) * this.position;
+        this.position += this.step;
+      }
+      this.position -= 1;
+      this.previous = current;
+    }
+    return count;
+  }
+}
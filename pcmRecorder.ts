@@ -0,0 +1,100 @@
+/// <reference types="vite/client" />
+/**
+ * @fileoverview Lossless recording of an audio node through the recorder
+ * AudioWorklet.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {RecorderCommand, RecorderMessage, RecorderProcessorOptions} from './recorderWorklet';
+import recorderWorkletUrl from './recorderWorklet?worker&url';
+
+// About 170 ms per message at 24 kHz.
+const BATCH_SIZE = 4096;
+
+const contextsWithModule = new WeakSet<BaseAudioContext>();
+
+/** Planar float PCM, as captured or decoded. */
+export interface RecordedAudio {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+/** Joins planar blocks into one planar buffer. */
+function concatBlocks(blocks: Float32Array[][], channelCount: number): Float32Array[] {
+  const length = blocks.reduce((sum, block) => sum + block[0].length, 0);
+  const channels = Array.from({length: channelCount}, () => new Float32Array(length));
+  let offset = 0;
+  for (const block of blocks) {
+    channels.forEach((channel, i) => channel.set(block[i], offset));
+    offset += block[0].length;
+  }
+  return channels;
+}
+
+/**
+ * Records everything reaching a node as float PCM at the context rate. The
+ * input is always mixed to `channelCount` channels, so a mono mix is
+ * recorded as identical left and right channels.
+ */
+export class PcmRecorder {
+  private blocks: Float32Array[][] = [];
+  private frames = 0;
+  private onFlushed: (() => void) | null = null;
+
+  private constructor(
+    private readonly context: BaseAudioContext,
+    private readonly source: AudioNode,
+    private readonly node: AudioWorkletNode,
+    readonly channelCount: number,
+  ) {
+    node.port.onmessage = (e: MessageEvent<RecorderMessage>) => {
+      if (e.data.type === 'data') {
+        this.blocks.push(e.data.channels);
+        this.frames += e.data.channels[0].length;
+      } else {
+        this.onFlushed?.();
+      }
+    };
+  }
+
+  static async start(context: BaseAudioContext, source: AudioNode, channelCount = 2): Promise<PcmRecorder> {
+    if (!contextsWithModule.has(context)) {
+      await context.audioWorklet.addModule(recorderWorkletUrl);
+      contextsWithModule.add(context);
+    }
+    const processorOptions: RecorderProcessorOptions = {batchSize: BATCH_SIZE};
+    const node = new AudioWorkletNode(context, 'recorder-processor', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount,
+      channelCountMode: 'explicit',
+      channelInterpretation: 'speakers',
+      processorOptions,
+    });
+    source.connect(node);
+    return new PcmRecorder(context, source, node, channelCount);
+  }
+
+  /** Seconds recorded so far. */
+  get duration(): number {
+    return this.frames / this.context.sampleRate;
+  }
+
+  /** Stops recording and resolves with everything captured. */
+  async stop(): Promise<RecordedAudio> {
+    this.source.disconnect(this.node);
+    await new Promise<void>((resolve) => {
+      this.onFlushed = resolve;
+      this.node.port.postMessage({type: 'flush'} satisfies RecorderCommand);
+    });
+    this.node.port.onmessage = null;
+    this.node.port.close();
+    const channels =
+      this.blocks.length > 0
+        ? concatBlocks(this.blocks, this.blocks[0].length)
+        : Array.from({length: this.channelCount}, () => new Float32Array(0));
+    this.blocks = [];
+    return {sampleRate: this.context.sampleRate, channels};
+  }
+}
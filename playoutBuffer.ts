@@ -0,0 +1,188 @@
+/**
+ * @fileoverview Adaptive playout buffer for streamed audio chunks.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface PlayoutOptions {
+  /** Base delay between a chunk's arrival and its playback, in seconds. */
+  targetLatency: number;
+  minLatency: number;
+  maxLatency: number;
+  /** Length of the fades used at discontinuities, in seconds. */
+  crossfade: number;
+}
+
+export const DEFAULT_PLAYOUT_OPTIONS: PlayoutOptions = {
+  targetLatency: 0.1,
+  minLatency: 0.02,
+  maxLatency: 2,
+  crossfade: 0.005,
+};
+
+/** Detail of the `underrun` event. */
+export interface UnderrunDetail {
+  count: number;
+  /** Seconds of silence between the last audio and the recovered chunk. */
+  gap: number;
+}
+
+// How many jitter deviations of headroom the adaptive latency keeps.
+const JITTER_HEADROOM = 4;
+// Extra latency added on every underrun, decaying while chunks arrive in time.
+const UNDERRUN_BOOST = 0.05;
+const BOOST_DECAY = 0.98;
+
+interface ScheduledChunk {
+  source: AudioBufferSourceNode;
+  envelope: GainNode;
+  start: number;
+  end: number;
+}
+
+/**
+ * Schedules decoded chunks back to back on an `AudioContext` clock with a
+ * latency that adapts to measured arrival jitter.
+ *
+ * Every chunk is scheduled with a short fade-out at its end. When the next
+ * chunk arrives in time the fade is cancelled, so contiguous audio joins
+ * sample-accurately; when it arrives late the fade has already silenced the
+ * tail, and the late chunk fades in, so neither side of the gap clicks.
+ * Fires an `underrun` event each time the buffer runs dry.
+ */
+export class PlayoutBuffer extends EventTarget {
+  underruns = 0;
+  /** Smoothed arrival jitter in seconds, as in RFC 3550. */
+  jitter = 0;
+
+  private readonly options: PlayoutOptions;
+  private nextStartTime = 0;
+  private boost = 0;
+  private chunks: ScheduledChunk[] = [];
+  private lastArrival: number | null = null;
+  private lastDuration = 0;
+
+  constructor(
+    private readonly context: BaseAudioContext,
+    private readonly destination: AudioNode,
+    options: Partial<PlayoutOptions> = {},
+  ) {
+    super();
+    this.options = {...DEFAULT_PLAYOUT_OPTIONS, ...options};
+  }
+
+  /** The latency new audio is currently scheduled at, in seconds. */
+  get targetLatency(): number {
+    const {targetLatency, minLatency, maxLatency} = this.options;
+    const latency = targetLatency + JITTER_HEADROOM * this.jitter + this.boost;
+    return Math.max(minLatency, Math.min(maxLatency, latency));
+  }
+
+  /** Seconds of audio scheduled ahead of the playhead. */
+  get bufferedAhead(): number {
+    return Math.max(0, this.nextStartTime - this.context.currentTime);
+  }
+
+  setBaseLatency(seconds: number) {
+    this.options.targetLatency = seconds;
+  }
+
+  /** Schedules a chunk right after the previous one. */
+  enqueue(buffer: AudioBuffer) {
+    const now = this.context.currentTime;
+    const {crossfade} = this.options;
+    const previous = this.chunks[this.chunks.length - 1];
+
+    let start = this.nextStartTime;
+    let fadeIn = false;
+    if (this.nextStartTime === 0) {
+      // First chunk after a reset.
+      start = now + this.targetLatency;
+      fadeIn = true;
+    } else if (start < now) {
+      // The buffer ran dry: resume with more headroom.
+      this.boost = Math.min(this.options.maxLatency, this.boost + UNDERRUN_BOOST);
+      this.underruns++;
+      this.dispatchEvent(
+        new CustomEvent<UnderrunDetail>('underrun', {
+          detail: {count: this.underruns, gap: now - start},
+        }),
+      );
+      start = now + this.targetLatency;
+      fadeIn = true;
+    } else if (previous && start - crossfade > now) {
+      // In time: undo the tail fade so the chunks join seamlessly.
+      const param = previous.envelope.gain;
+      param.cancelScheduledValues(previous.end - crossfade);
+      param.setValueAtTime(1, previous.end - crossfade);
+      this.boost *= BOOST_DECAY;
+    } else {
+      // The tail fade has begun; fade in to meet it.
+      fadeIn = true;
+    }
+    start = this.alignToFrame(start);
+    const end = start + buffer.duration;
+
+    const envelope = this.context.createGain();
+    envelope.connect(this.destination);
+    const fade = Math.min(crossfade, buffer.duration / 2);
+    if (fadeIn) {
+      envelope.gain.setValueAtTime(0, start);
+      envelope.gain.linearRampToValueAtTime(1, start + fade);
+    }
+    envelope.gain.setValueAtTime(1, end - fade);
+    envelope.gain.linearRampToValueAtTime(0, end);
+
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(envelope);
+    const chunk: ScheduledChunk = {source, envelope, start, end};
+    source.addEventListener('ended', () => {
+      envelope.disconnect();
+      this.chunks = this.chunks.filter((c) => c !== chunk);
+    });
+    source.start(start);
+    this.chunks.push(chunk);
+    this.nextStartTime = end;
+  }
+
+  /**
+   * Feeds the jitter estimate with a chunk's arrival. Kept separate from
+   * `enqueue` because time-shifted audio is scheduled later than it arrives.
+   */
+  recordArrival(duration: number) {
+    const now = this.context.currentTime;
+    if (this.lastArrival !== null) {
+      // Difference between the arrival spacing and the media spacing.
+      const deviation = now - this.lastArrival - this.lastDuration;
+      this.jitter += (Math.abs(deviation) - this.jitter) / 16;
+    }
+    this.lastArrival = now;
+    this.lastDuration = duration;
+  }
+
+  /** Fades out and stops everything scheduled, keeping the timeline. */
+  stop() {
+    const now = this.context.currentTime;
+    const fadeEnd = now + this.options.crossfade;
+    for (const {source, envelope} of this.chunks) {
+      envelope.gain.cancelScheduledValues(now);
+      envelope.gain.setValueAtTime(envelope.gain.value, now);
+      envelope.gain.linearRampToValueAtTime(0, fadeEnd);
+      source.stop(fadeEnd);
+    }
+    this.chunks = [];
+  }
+
+  /** Stops everything and restarts the timeline on the next chunk. */
+  flush() {
+    this.stop();
+    this.nextStartTime = 0;
+    this.lastArrival = null;
+  }
+
+  private alignToFrame(time: number) {
+    const rate = this.context.sampleRate;
+    return Math.round(time * rate) / rate;
+  }
+}
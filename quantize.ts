@@ -0,0 +1,38 @@
+/**
+ * @fileoverview Musical grid for quantized prompt changes.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {BEATS_PER_BAR} from './scenes';
+
+export type Quantize = 'off' | 'beat' | 'bar' | '4-bars' | '8-bars';
+
+export const QUANTIZE_OPTIONS: Record<Quantize, {label: string; beats: number}> = {
+  'off': {label: 'Off', beats: 0},
+  'beat': {label: 'Beat', beats: 1},
+  'bar': {label: '1 bar', beats: BEATS_PER_BAR},
+  '4-bars': {label: '4 bars', beats: 4 * BEATS_PER_BAR},
+  '8-bars': {label: '8 bars', beats: 8 * BEATS_PER_BAR},
+};
+
+/** Where the tempo of the grid comes from. */
+export type QuantizeTempo = 'set' | 'detected';
+
+/** Detected tempi less sure than this fall back to the set tempo. */
+export const MIN_TEMPO_CONFIDENCE = 0.3;
+
+/** Seconds between boundaries, or null when not quantizing. */
+export function quantizePeriod(quantize: Quantize, bpm: number): number | null {
+  const {beats} = QUANTIZE_OPTIONS[quantize];
+  return beats > 0 && bpm > 0 ? (beats * 60) / bpm : null;
+}
+
+/**
+ * The first boundary of the grid through `origin` that is still ahead of
+ * `now`; the grid runs both ways from `origin`. A boundary closer than
+ * `margin` counts as missed.
+ */
+export function nextBoundary(now: number, origin: number, period: number, margin = 0.005): number {
+  return origin + Math.ceil((now + margin - origin) / period) * period;
+}
@@ -0,0 +1,83 @@
+/**
+ * @fileoverview AudioWorklet processor that copies its input to the main
+ * thread in batches, for lossless recording of the master output.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Globals of the AudioWorkletGlobalScope, which lib.dom does not describe.
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor,
+): void;
+
+export interface RecorderProcessorOptions {
+  /** Frames per posted batch. */
+  batchSize: number;
+}
+
+/** Messages from the main thread. */
+export type RecorderCommand = {type: 'flush'};
+
+/** Messages to the main thread. */
+export type RecorderMessage =
+  | {type: 'data'; channels: Float32Array[]}
+  | {type: 'flushed'};
+
+class RecorderProcessor extends AudioWorkletProcessor {
+  private readonly batchSize: number;
+  private batch: Float32Array[] = [];
+  private filled = 0;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    this.batchSize = (options.processorOptions as RecorderProcessorOptions).batchSize;
+    this.port.onmessage = (e: MessageEvent<RecorderCommand>) => {
+      if (e.data.type === 'flush') {
+        this.post();
+        this.port.postMessage({type: 'flushed'} satisfies RecorderMessage);
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) {
+      return true;
+    }
+    if (this.batch.length !== channels.length) {
+      this.post();
+      this.batch = channels.map(() => new Float32Array(this.batchSize));
+    }
+    const frames = channels[0].length;
+    for (let offset = 0; offset < frames; ) {
+      const count = Math.min(frames - offset, this.batchSize - this.filled);
+      channels.forEach((channel, i) => {
+        this.batch[i].set(channel.subarray(offset, offset + count), this.filled);
+      });
+      this.filled += count;
+      offset += count;
+      if (this.filled === this.batchSize) {
+        this.post();
+      }
+    }
+    return true;
+  }
+
+  private post() {
+    if (this.filled === 0) return;
+    const channels = this.batch.map((channel) => channel.slice(0, this.filled));
+    const message: RecorderMessage = {type: 'data', channels};
+    this.port.postMessage(
+      message,
+      channels.map((c) => c.buffer),
+    );
+    this.filled = 0;
+  }
+}
+
+registerProcessor('recorder-processor', RecorderProcessor);
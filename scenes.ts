@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Named prompt snapshots and morphing between them.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {Prompt} from './types';
+
+/** A named snapshot of a deck's prompts. */
+export interface Scene {
+  readonly sceneId: string;
+  name: string;
+  prompts: Prompt[];
+}
+
+export type MorphUnit = 'seconds' | 'bars';
+
+export const BEATS_PER_BAR = 4;
+
+/** Converts a morph length to seconds at the given tempo. */
+export function morphSeconds(length: number, unit: MorphUnit, bpm: number): number {
+  return unit === 'bars' ? (length * BEATS_PER_BAR * 60) / bpm : length;
+}
+
+interface MorphTrack {
+  prompt: Prompt;
+  from: number;
+  to: number;
+  outgoing: boolean;
+}
+
+/**
+ * The weight ramps that take one prompt list to another. Prompts present in
+ * both lists (by id, else by text) ramp between their weights, outgoing
+ * prompts ramp to 0 and incoming prompts ramp up from 0.
+ */
+export type MorphPlan = MorphTrack[];
+
+export function planMorph(from: Prompt[], to: Prompt[]): MorphPlan {
+  const unmatched = [...to];
+  const takeMatch = (prompt: Prompt) => {
+    let index = unmatched.findIndex((p) => p.promptId === prompt.promptId);
+    if (index < 0) {
+      const text = prompt.text.trim().toLowerCase();
+      index = unmatched.findIndex((p) => p.text.trim().toLowerCase() === text);
+    }
+    return index < 0 ? null : unmatched.splice(index, 1)[0];
+  };
+
+  const plan: MorphPlan = from.map((prompt) => {
+    const match = takeMatch(prompt);
+    return {prompt, from: prompt.weight, to: match ? match.weight : 0, outgoing: !match};
+  });
+  for (const prompt of unmatched) {
+    plan.push({prompt, from: 0, to: prompt.weight, outgoing: false});
+  }
+  return plan;
+}
+
+/**
+ * Evaluates a morph at `progress` in [0, 1]. Outgoing prompts are dropped once
+ * the morph completes.
+ */
+export function morphPrompts(plan: MorphPlan, progress: number): Prompt[] {
+  const t = Math.max(0, Math.min(1, progress));
+  const prompts: Prompt[] = [];
+  for (const {prompt, from, to, outgoing} of plan) {
+    if (t === 1 && outgoing) {
+      continue;
+    }
+    const weight = parseFloat((from + (to - from) * t).toFixed(2));
+    prompts.push({...prompt, weight});
+  }
+  return prompts;
+}
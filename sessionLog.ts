@@ -0,0 +1,173 @@
+/**
+ * @fileoverview Capture and replay of live session message streams.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {LiveServerMessage} from '@google/genai';
+import type {
+  MusicRealtimeInput,
+  MusicSession,
+  MusicSource,
+  MusicSourceCallbacks,
+  MusicSourceConnectParams,
+} from './musicSource';
+import type {LiveMusicGenerationConfig} from './types';
+
+export const SESSION_LOG_VERSION = 1;
+
+export type SessionLogEvent =
+  | {type: 'message'; time: number; message: LiveServerMessage}
+  | {type: 'prompt-update'; time: number; config: LiveMusicGenerationConfig};
+
+/** A portable recording of a live session. Times are ms since connect. */
+export interface SessionLog {
+  version: number;
+  source: string;
+  startedAt: string;
+  initialConfig: LiveMusicGenerationConfig;
+  events: SessionLogEvent[];
+}
+
+/** Collects server messages and prompt updates as they happen. */
+export class SessionRecorder {
+  private readonly startTime = performance.now();
+  private readonly log: SessionLog;
+
+  constructor(source: string, initialConfig: LiveMusicGenerationConfig) {
+    this.log = {
+      version: SESSION_LOG_VERSION,
+      source,
+      startedAt: new Date().toISOString(),
+      initialConfig,
+      events: [],
+    };
+  }
+
+  recordMessage(message: LiveServerMessage) {
+    this.log.events.push({type: 'message', time: this.elapsed(), message});
+  }
+
+  recordPromptUpdate(config: LiveMusicGenerationConfig) {
+    this.log.events.push({type: 'prompt-update', time: this.elapsed(), config});
+  }
+
+  get eventCount() {
+    return this.log.events.length;
+  }
+
+  toBlob(): Blob {
+    return new Blob([JSON.stringify(this.log)], {type: 'application/json'});
+  }
+
+  private elapsed() {
+    return Math.round((performance.now() - this.startTime) * 1000) / 1000;
+  }
+}
+
+/** Parses and validates a session log file, throwing on malformed input. */
+export function parseSessionLog(text: string): SessionLog {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Session log is not valid JSON.');
+  }
+  const log = data as Partial<SessionLog>;
+  if (typeof log !== 'object' || log === null) {
+    throw new Error('Session log must be a JSON object.');
+  }
+  if (log.version !== SESSION_LOG_VERSION) {
+    throw new Error(`Unsupported session log version: ${String(log.version)}.`);
+  }
+  if (!Array.isArray(log.events)) {
+    throw new Error('Session log is missing its events.');
+  }
+  checkPrompts('initialConfig', log.initialConfig);
+  for (const [i, event] of log.events.entries()) {
+    const at = `events[${i}]`;
+    if (typeof event?.time !== 'number' || (event.type !== 'message' && event.type !== 'prompt-update')) {
+      throw new Error(`Session log ${at} is malformed.`);
+    }
+    if (event.type === 'message' && (typeof event.message !== 'object' || event.message === null)) {
+      throw new Error(`Session log ${at}.message must be an object.`);
+    }
+    if (event.type === 'prompt-update') {
+      checkPrompts(`${at}.config`, event.config);
+    }
+  }
+  return log as SessionLog;
+}
+
+/** Throws unless `config` carries a list of weighted prompts. */
+function checkPrompts(path: string, config: LiveMusicGenerationConfig | undefined) {
+  const prompts: unknown = config?.weightedPrompts;
+  if (!Array.isArray(prompts)) {
+    throw new Error(`Session log ${path}.weightedPrompts must be an array.`);
+  }
+  prompts.forEach((prompt, i) => {
+    if (typeof prompt?.text !== 'string' || typeof prompt?.weight !== 'number') {
+      throw new Error(`Session log ${path}.weightedPrompts[${i}] must have a text and a weight.`);
+    }
+  });
+}
+
+class ReplaySession implements MusicSession {
+  private timers: Array<ReturnType<typeof setTimeout>> = [];
+  private closed = false;
+
+  constructor(
+    private readonly log: SessionLog,
+    private readonly callbacks: MusicSourceCallbacks,
+  ) {}
+
+  open() {
+    setTimeout(() => {
+      if (this.closed) return;
+      this.callbacks.onopen?.();
+      this.callbacks.onconfig?.(this.log.initialConfig);
+      let lastTime = 0;
+      for (const event of this.log.events) {
+        lastTime = Math.max(lastTime, event.time);
+        this.timers.push(
+          setTimeout(
+            () =>
+              event.type === 'message'
+                ? this.callbacks.onmessage(event.message)
+                : this.callbacks.onconfig?.(event.config),
+            event.time,
+          ),
+        );
+      }
+      this.timers.push(setTimeout(() => this.close(), lastTime));
+    }, 0);
+  }
+
+  sendRealtimeInput(input: MusicRealtimeInput) {
+    // A replay is fixed; live input cannot steer it.
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers = [];
+    this.callbacks.onclose?.(new CloseEvent('close', {code: 1000, wasClean: true}));
+  }
+}
+
+/**
+ * Plays a saved session log back through the normal session callbacks,
+ * including its prompt updates through `onconfig`.
+ */
+export class ReplayMusicSource implements MusicSource {
+  readonly kind = 'replay';
+
+  constructor(private readonly log: SessionLog) {}
+
+  async connect({callbacks}: MusicSourceConnectParams): Promise<MusicSession> {
+    const session = new ReplaySession(this.log, callbacks);
+    session.open();
+    return session;
+  }
+}
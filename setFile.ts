@@ -0,0 +1,221 @@
+/**
+ * @fileoverview The versioned "set" format used for persistence and JSON
+ * import/export, and its validation.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {INTERPOLATIONS, type Keyframe, sortKeyframes} from './automation';
+import type {CrossfaderCurve, DeckId} from './deck';
+import type {MusicSourceKind} from './musicSource';
+import type {MorphUnit, Scene} from './scenes';
+import type {Prompt} from './types';
+
+export const SET_FORMAT = 'auraspirit-set';
+export const SET_VERSION = 1;
+
+export interface DeckSet {
+  prompts: Prompt[];
+  gain: number;
+  musicSourceKind: MusicSourceKind;
+  automation: Record<string, Keyframe[]>;
+  automationLength: number;
+  automationLoop: boolean;
+}
+
+export interface AppSet {
+  format: typeof SET_FORMAT;
+  version: typeof SET_VERSION;
+  decks: Record<DeckId, DeckSet>;
+  settings: {
+    outputVolume: number;
+    crossfader: number;
+    crossfaderCurve: CrossfaderCurve;
+    tempoBpm: number;
+    morphLength: number;
+    morphUnit: MorphUnit;
+  };
+  scenes: Scene[];
+  customPresets: string[];
+}
+
+/** Thrown when a set file does not match the schema. */
+export class SetValidationError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid set file:\n${issues.map((issue) => `- ${issue}`).join('\n')}`);
+    this.name = 'SetValidationError';
+  }
+}
+
+// Validation helpers. Each records an issue against a dotted path.
+// -----------------------------------------------------------------------------
+type Issues = string[];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkNumber(issues: Issues, path: string, value: unknown, min: number, max: number) {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    issues.push(`${path} must be a number between ${min} and ${max}.`);
+  }
+}
+
+function checkString(issues: Issues, path: string, value: unknown) {
+  if (typeof value !== 'string' || value.trim() === '') {
+    issues.push(`${path} must be a non-empty string.`);
+  }
+}
+
+function checkBoolean(issues: Issues, path: string, value: unknown) {
+  if (typeof value !== 'boolean') {
+    issues.push(`${path} must be true or false.`);
+  }
+}
+
+function checkOneOf(issues: Issues, path: string, value: unknown, options: readonly string[]) {
+  if (typeof value !== 'string' || !options.includes(value)) {
+    issues.push(`${path} must be one of: ${options.join(', ')}.`);
+  }
+}
+
+function checkArray(issues: Issues, path: string, value: unknown): value is unknown[] {
+  if (!Array.isArray(value)) {
+    issues.push(`${path} must be an array.`);
+    return false;
+  }
+  return true;
+}
+
+// Automation lanes and scene morphs find prompts by id, so ids must be
+// unique within a list.
+function checkPrompts(issues: Issues, path: string, value: unknown) {
+  if (!checkArray(issues, path, value)) return;
+  const promptIds = new Set<unknown>();
+  value.forEach((prompt, i) => {
+    const at = `${path}[${i}]`;
+    if (!isObject(prompt)) {
+      issues.push(`${at} must be an object.`);
+      return;
+    }
+    checkString(issues, `${at}.promptId`, prompt.promptId);
+    if (promptIds.has(prompt.promptId)) {
+      issues.push(`${at}.promptId ${JSON.stringify(prompt.promptId)} is already used in ${path}.`);
+    }
+    promptIds.add(prompt.promptId);
+    checkString(issues, `${at}.text`, prompt.text);
+    checkNumber(issues, `${at}.weight`, prompt.weight, 0, 2);
+    if (typeof prompt.color !== 'string' || !/^#([A-Fa-f0-9]{3}){1,2}$/.test(prompt.color)) {
+      issues.push(`${at}.color must be a hex color such as #3dffab.`);
+    }
+  });
+}
+
+function checkDeck(issues: Issues, path: string, value: unknown) {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object.`);
+    return;
+  }
+  checkPrompts(issues, `${path}.prompts`, value.prompts);
+  checkNumber(issues, `${path}.gain`, value.gain, 0, 1.5);
+  checkOneOf(issues, `${path}.musicSourceKind`, value.musicSourceKind, ['gemini', 'synthetic']);
+  checkNumber(issues, `${path}.automationLength`, value.automationLength, 1, 86400);
+  checkBoolean(issues, `${path}.automationLoop`, value.automationLoop);
+  if (!isObject(value.automation)) {
+    issues.push(`${path}.automation must be an object.`);
+    return;
+  }
+  for (const [promptId, keyframes] of Object.entries(value.automation)) {
+    const at = `${path}.automation.${promptId}`;
+    if (!checkArray(issues, at, keyframes)) continue;
+    keyframes.forEach((keyframe, i) => {
+      if (!isObject(keyframe)) {
+        issues.push(`${at}[${i}] must be an object.`);
+        return;
+      }
+      checkNumber(issues, `${at}[${i}].time`, keyframe.time, 0, 86400);
+      checkNumber(issues, `${at}[${i}].value`, keyframe.value, 0, 2);
+      checkOneOf(issues, `${at}[${i}].interpolation`, keyframe.interpolation, INTERPOLATIONS);
+    });
+  }
+}
+
+/**
+ * Checks untrusted data against the set schema, throwing on any mismatch.
+ * Automation lanes come back sorted by time, as playback expects.
+ */
+export function validateSet(data: unknown): AppSet {
+  const issues: Issues = [];
+  if (!isObject(data)) {
+    throw new SetValidationError(['The file must contain a JSON object.']);
+  }
+  if (data.format !== SET_FORMAT) {
+    throw new SetValidationError([`format must be "${SET_FORMAT}".`]);
+  }
+  if (data.version !== SET_VERSION) {
+    throw new SetValidationError([
+      `version ${String(data.version)} is not supported; expected ${SET_VERSION}.`,
+    ]);
+  }
+
+  if (isObject(data.decks)) {
+    checkDeck(issues, 'decks.A', data.decks.A);
+    checkDeck(issues, 'decks.B', data.decks.B);
+  } else {
+    issues.push('decks must be an object with A and B.');
+  }
+
+  const settings = data.settings;
+  if (isObject(settings)) {
+    checkNumber(issues, 'settings.outputVolume', settings.outputVolume, 0, 1);
+    checkNumber(issues, 'settings.crossfader', settings.crossfader, 0, 1);
+    checkOneOf(issues, 'settings.crossfaderCurve', settings.crossfaderCurve, ['equal-power', 'linear']);
+    checkNumber(issues, 'settings.tempoBpm', settings.tempoBpm, 40, 240);
+    checkNumber(issues, 'settings.morphLength', settings.morphLength, 0, 3600);
+    checkOneOf(issues, 'settings.morphUnit', settings.morphUnit, ['seconds', 'bars']);
+  } else {
+    issues.push('settings must be an object.');
+  }
+
+  if (checkArray(issues, 'scenes', data.scenes)) {
+    data.scenes.forEach((scene, i) => {
+      if (!isObject(scene)) {
+        issues.push(`scenes[${i}] must be an object.`);
+        return;
+      }
+      checkString(issues, `scenes[${i}].sceneId`, scene.sceneId);
+      checkString(issues, `scenes[${i}].name`, scene.name);
+      checkPrompts(issues, `scenes[${i}].prompts`, scene.prompts);
+    });
+  }
+
+  if (checkArray(issues, 'customPresets', data.customPresets)) {
+    data.customPresets.forEach((preset, i) => checkString(issues, `customPresets[${i}]`, preset));
+  }
+
+  if (issues.length > 0) {
+    throw new SetValidationError(issues);
+  }
+  const set = data as unknown as AppSet;
+  for (const deck of Object.values(set.decks)) {
+    for (const [promptId, keyframes] of Object.entries(deck.automation)) {
+      deck.automation[promptId] = sortKeyframes(keyframes);
+    }
+  }
+  return set;
+}
+
+/** Parses and validates the text of a set file. */
+export function parseSetFile(text: string): AppSet {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new SetValidationError(['The file is not valid JSON.']);
+  }
+  return validateSet(data);
+}
+
+export function serializeSet(set: AppSet): string {
+  return JSON.stringify(set, null, 2);
+}
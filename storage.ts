@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Small promise wrapper around the app's IndexedDB database.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {Take} from './takes';
+
+const DB_NAME = 'auraspirit';
+const DB_VERSION = 2;
+/** Key-value store for app state such as the current set. */
+export const STATE_STORE = 'state';
+/** Recorded takes, keyed by `takeId`. Added in version 2. */
+export const TAKES_STORE = 'takes';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STATE_STORE)) {
+        db.createObjectStore(STATE_STORE);
+      }
+      if (!db.objectStoreNames.contains(TAKES_STORE)) {
+        db.createObjectStore(TAKES_STORE, {keyPath: 'takeId'});
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((error) => {
+    dbPromise = null;
+    throw error;
+  });
+  return dbPromise;
+}
+
+export async function loadState<T>(key: string): Promise<T | undefined> {
+  const db = await openDatabase();
+  return promisify<T | undefined>(
+    db.transaction(STATE_STORE, 'readonly').objectStore(STATE_STORE).get(key),
+  );
+}
+
+export async function saveState<T>(key: string, value: T): Promise<void> {
+  const db = await openDatabase();
+  await promisify(
+    db.transaction(STATE_STORE, 'readwrite').objectStore(STATE_STORE).put(value, key),
+  );
+}
+
+/** All takes, newest first. */
+export async function loadTakes(): Promise<Take[]> {
+  const db = await openDatabase();
+  const takes = await promisify<Take[]>(
+    db.transaction(TAKES_STORE, 'readonly').objectStore(TAKES_STORE).getAll(),
+  );
+  return takes.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function saveTake(take: Take): Promise<void> {
+  const db = await openDatabase();
+  await promisify(db.transaction(TAKES_STORE, 'readwrite').objectStore(TAKES_STORE).put(take));
+}
+
+export async function deleteTakes(takeIds: string[]): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(TAKES_STORE, 'readwrite');
+  const store = transaction.objectStore(TAKES_STORE);
+  await Promise.all(takeIds.map((id) => promisify(store.delete(id))));
+}
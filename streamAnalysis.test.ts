@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {describe, expect, it} from 'vitest';
+import {estimateKey, estimateTempo} from './streamAnalysis';
+
+const SAMPLE_RATE = 48000;
+
+/** Short decaying noise bursts, one per beat. */
+function clickTrack(bpm: number, seconds: number, firstBeat = 0): Float32Array {
+  const samples = new Float32Array(seconds * SAMPLE_RATE);
+  const period = (60 / bpm) * SAMPLE_RATE;
+  const clickLength = Math.round(0.01 * SAMPLE_RATE);
+  let seed = 1;
+  for (let start = firstBeat * SAMPLE_RATE; start < samples.length; start += period) {
+    for (let i = 0; i < clickLength && start + i < samples.length; i++) {
+      seed = (seed * 16807) % 2147483647;
+      const noise = seed / 1073741823.5 - 1;
+      samples[Math.floor(start) + i] = noise * Math.exp(-i / (0.002 * SAMPLE_RATE));
+    }
+  }
+  return samples;
+}
+
+function chord(frequencies: number[], seconds: number): Float32Array {
+  return Float32Array.from({length: seconds * SAMPLE_RATE}, (_, i) =>
+    frequencies.reduce((sum, f) => sum + Math.sin((2 * Math.PI * f * i) / SAMPLE_RATE), 0) / frequencies.length,
+  );
+}
+
+describe('estimateTempo', () => {
+  it.each([90, 120, 128, 140])('finds %i BPM in a click track', (bpm) => {
+    const tempo = estimateTempo(clickTrack(bpm, 12), SAMPLE_RATE);
+    expect(tempo?.bpm).toBeCloseTo(bpm, 0);
+    expect(tempo?.confidence).toBeGreaterThan(0.5);
+  });
+
+  it('finds where the beats fall', () => {
+    const tempo = estimateTempo(clickTrack(120, 12, 0.3), SAMPLE_RATE);
+    expect(tempo?.phase).toBeGreaterThan(0.28);
+    expect(tempo?.phase).toBeLessThan(0.32);
+  });
+
+  it('returns null for silence', () => {
+    expect(estimateTempo(new Float32Array(12 * SAMPLE_RATE), SAMPLE_RATE)).toBeNull();
+  });
+
+  it('returns null when the buffer is too short', () => {
+    expect(estimateTempo(clickTrack(120, 1), SAMPLE_RATE)).toBeNull();
+  });
+});
+
+describe('estimateKey', () => {
+  it('finds C major in a C major triad', () => {
+    // C4, E4, G4
+    expect(estimateKey(chord([261.63, 329.63, 392], 4), SAMPLE_RATE)).toMatchObject({tonic: 0, mode: 'major'});
+  });
+
+  it('finds A minor in an A minor triad', () => {
+    // A3, C4, E4
+    expect(estimateKey(chord([220, 261.63, 329.63], 4), SAMPLE_RATE)).toMatchObject({tonic: 9, mode: 'minor'});
+  });
+
+  it('returns null for silence', () => {
+    expect(estimateKey(new Float32Array(SAMPLE_RATE), SAMPLE_RATE)).toBeNull();
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * @fileoverview Tempo and key estimation for the generated stream: onset
+ * autocorrelation for BPM, chroma against key profiles for the key. The
+ * estimators take plain sample buffers so they run anywhere; the app runs
+ * them in a worker through `StreamAnalyzer`.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface TempoEstimate {
+  bpm: number;
+  /** Seconds from the start of the buffer to the first beat. */
+  phase: number;
+  /** How periodic the onsets are, from 0 to 1. */
+  confidence: number;
+}
+
+export type KeyMode = 'major' | 'minor';
+
+export interface KeyEstimate {
+  /** Pitch class of the tonic, 0 for C up to 11 for B. */
+  tonic: number;
+  mode: KeyMode;
+  /** Correlation of the chroma with the key profile, from 0 to 1. */
+  confidence: number;
+}
+
+export interface StreamAnalysis {
+  tempo: TempoEstimate | null;
+  key: KeyEstimate | null;
+}
+
+export const PITCH_CLASSES = ['C', 'C♯', 'D', 'E♭', 'E', 'F', 'F♯', 'G', 'A♭', 'A', 'B♭', 'B'];
+
+export function formatKey(key: KeyEstimate): string {
+  return `${PITCH_CLASSES[key.tonic]} ${key.mode}`;
+}
+
+export const MIN_BPM = 60;
+export const MAX_BPM = 200;
+// Tempi near this are preferred when the onsets fit several octaves.
+const PREFERRED_BPM = 120;
+const ONSET_FRAME_SECONDS = 0.04;
+const ONSET_HOP_SECONDS = 0.01;
+const CHROMA_FRAME_SECONDS = 0.17;
+const CHROMA_MIN_FREQUENCY = 55;
+const CHROMA_MAX_FREQUENCY = 2000;
+
+// Krumhansl-Kessler probe tone ratings, starting on the tonic.
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+/** In-place radix-2 FFT; the length must be a power of two. */
+function fft(re: Float32Array, im: Float32Array, cos: Float32Array, sin: Float32Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size / 2;
+    const stride = n / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const c = cos[k * stride];
+        const s = sin[k * stride];
+        const a = start + k;
+        const b = a + half;
+        const tre = re[b] * c - im[b] * s;
+        const tim = re[b] * s + im[b] * c;
+        re[b] = re[a] - tre;
+        im[b] = im[a] - tim;
+        re[a] += tre;
+        im[a] += tim;
+      }
+    }
+  }
+}
+
+function powerOfTwoAtLeast(value: number): number {
+  return 2 ** Math.ceil(Math.log2(Math.max(2, value)));
+}
+
+/**
+ * Calls `onFrame` with the magnitude spectrum of each Hann-windowed frame.
+ * The array is reused between calls.
+ */
+function forEachSpectrum(
+  samples: Float32Array,
+  size: number,
+  hop: number,
+  onFrame: (magnitudes: Float32Array) => void,
+) {
+  const window = Float32Array.from({length: size}, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size));
+  const cos = Float32Array.from({length: size / 2}, (_, k) => Math.cos((-2 * Math.PI * k) / size));
+  const sin = Float32Array.from({length: size / 2}, (_, k) => Math.sin((-2 * Math.PI * k) / size));
+  const re = new Float32Array(size);
+  const im = new Float32Array(size);
+  const magnitudes = new Float32Array(size / 2);
+  for (let start = 0; start + size <= samples.length; start += hop) {
+    for (let i = 0; i < size; i++) {
+      re[i] = samples[start + i] * window[i];
+    }
+    im.fill(0);
+    fft(re, im, cos, sin);
+    for (let k = 0; k < magnitudes.length; k++) {
+      magnitudes[k] = Math.hypot(re[k], im[k]);
+    }
+    onFrame(magnitudes);
+  }
+}
+
+/**
+ * Onset strength per hop: the log spectral flux, which rises wherever
+ * energy appears in any band. `delay` is the time of an onset within the
+ * frame that responds to it.
+ */
+export function onsetEnvelope(
+  samples: Float32Array,
+  sampleRate: number,
+): {envelope: Float32Array; rate: number; delay: number} {
+  const size = powerOfTwoAtLeast(ONSET_FRAME_SECONDS * sampleRate);
+  const hop = Math.max(1, Math.round(ONSET_HOP_SECONDS * sampleRate));
+  const flux: number[] = [];
+  const previous = new Float32Array(size / 2);
+  forEachSpectrum(samples, size, hop, (magnitudes) => {
+    let sum = 0;
+    for (let k = 0; k < magnitudes.length; k++) {
+      const level = Math.log1p(100 * magnitudes[k]);
+      if (flux.length > 0) sum += Math.max(0, level - previous[k]);
+      previous[k] = level;
+    }
+    flux.push(sum);
+  });
+  // The flux peaks once an onset is well inside the Hann window, about
+  // three quarters into the frame.
+  return {envelope: Float32Array.from(flux), rate: sampleRate / hop, delay: (0.75 * size) / sampleRate};
+}
+
+/**
+ * Estimates the tempo from the autocorrelation of the onset envelope. Each
+ * lag also hears from twice its length, so a steady beat beats its own
+ * off-beats, and a broad preference around 120 BPM settles octave doubts.
+ * Returns null when the buffer is too short for two beats at `MIN_BPM`.
+ */
+export function estimateTempo(samples: Float32Array, sampleRate: number): TempoEstimate | null {
+  const {envelope, rate, delay} = onsetEnvelope(samples, sampleRate);
+  const minLag = Math.floor((60 * rate) / MAX_BPM);
+  const maxLag = Math.ceil((60 * rate) / MIN_BPM);
+  if (envelope.length < 2 * maxLag) return null;
+  const mean = envelope.reduce((sum, v) => sum + v, 0) / envelope.length;
+  const centered = envelope.map((v) => v - mean);
+  const correlation = new Float32Array(2 * maxLag + 1);
+  for (let lag = 0; lag < correlation.length; lag++) {
+    let sum = 0;
+    for (let i = lag; i < centered.length; i++) {
+      sum += centered[i] * centered[i - lag];
+    }
+    // Unbiased, so long lags are not penalized for overlapping less.
+    correlation[lag] = sum / (centered.length - lag);
+  }
+  if (correlation[0] <= 0) return null;
+
+  let bestLag = 0;
+  let bestScore = -Infinity;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const octaves = Math.log2((60 * rate) / lag / PREFERRED_BPM);
+    const preference = Math.exp(-0.5 * octaves * octaves);
+    const score = (correlation[lag] + 0.5 * correlation[2 * lag]) * preference;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+  // Parabolic interpolation between neighbouring lags.
+  const before = correlation[bestLag - 1];
+  const at = correlation[bestLag];
+  const after = correlation[bestLag + 1];
+  const curvature = before - 2 * at + after;
+  const offset = curvature < 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (before - after)) / curvature)) : 0;
+  const period = bestLag + offset;
+  return {
+    bpm: (60 * rate) / period,
+    phase: ((beatPhase(envelope, period) + delay * rate) % period) / rate,
+    confidence: Math.max(0, Math.min(1, at / correlation[0])),
+  };
+}
+
+/** The frame offset within one period where the onsets line up best. */
+function beatPhase(envelope: Float32Array, period: number): number {
+  let bestPhase = 0;
+  let bestSum = -Infinity;
+  for (let phase = 0; phase < period; phase++) {
+    let sum = 0;
+    for (let frame = phase; frame < envelope.length; frame += period) {
+      sum += envelope[Math.round(frame)] ?? 0;
+    }
+    if (sum > bestSum) {
+      bestSum = sum;
+      bestPhase = phase;
+    }
+  }
+  return bestPhase;
+}
+
+/** Energy per pitch class from 55 Hz to 2 kHz, normalized to sum to 1. */
+export function chromagram(samples: Float32Array, sampleRate: number): Float32Array {
+  const size = powerOfTwoAtLeast(CHROMA_FRAME_SECONDS * sampleRate);
+  const chroma = new Float32Array(12);
+  const pitchClass = Int8Array.from({length: size / 2}, (_, k) => {
+    const frequency = (k * sampleRate) / size;
+    if (frequency < CHROMA_MIN_FREQUENCY || frequency > CHROMA_MAX_FREQUENCY) return -1;
+    // MIDI note 69 is A4 at 440 Hz.
+    const note = Math.round(69 + 12 * Math.log2(frequency / 440));
+    return ((note % 12) + 12) % 12;
+  });
+  forEachSpectrum(samples, size, size / 2, (magnitudes) => {
+    for (let k = 0; k < magnitudes.length; k++) {
+      if (pitchClass[k] >= 0) chroma[pitchClass[k]] += magnitudes[k] * magnitudes[k];
+    }
+  });
+  const total = chroma.reduce((sum, v) => sum + v, 0);
+  return total > 0 ? chroma.map((v) => v / total) : chroma;
+}
+
+function correlate(a: ArrayLike<number>, b: ArrayLike<number>, rotation: number): number {
+  const n = a.length;
+  let meanA = 0;
+  let meanB = 0;
+  for (let i = 0; i < n; i++) {
+    meanA += a[i] / n;
+    meanB += b[i] / n;
+  }
+  let sum = 0;
+  let sumA = 0;
+  let sumB = 0;
+  for (let i = 0; i < n; i++) {
+    const da = a[(i + rotation) % n] - meanA;
+    const db = b[i] - meanB;
+    sum += da * db;
+    sumA += da * da;
+    sumB += db * db;
+  }
+  return sumA > 0 && sumB > 0 ? sum / Math.sqrt(sumA * sumB) : 0;
+}
+
+/**
+ * Estimates the key by correlating the chromagram with the major and minor
+ * profile on every tonic. Returns null for silence.
+ */
+export function estimateKey(samples: Float32Array, sampleRate: number): KeyEstimate | null {
+  const chroma = chromagram(samples, sampleRate);
+  if (chroma.every((v) => v === 0)) return null;
+  let best: KeyEstimate | null = null;
+  for (let tonic = 0; tonic < 12; tonic++) {
+    for (const [mode, profile] of [
+      ['major', MAJOR_PROFILE],
+      ['minor', MINOR_PROFILE],
+    ] as const) {
+      const confidence = correlate(chroma, profile, tonic);
+      if (!best || confidence > best.confidence) {
+        best = {tonic, mode, confidence};
+      }
+    }
+  }
+  return best && {...best, confidence: Math.max(0, best.confidence)};
+}
@@ -0,0 +1,32 @@
+/**
+ * @fileoverview Worker that runs the tempo and key estimators off the main
+ * thread.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {estimateKey, estimateTempo, type StreamAnalysis} from './streamAnalysis';
+
+/** A window of the stream to analyze. */
+export interface AnalysisRequest {
+  id: number;
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+export interface AnalysisResult {
+  id: number;
+  analysis: StreamAnalysis;
+}
+
+self.onmessage = (event: MessageEvent<AnalysisRequest>) => {
+  const {id, samples, sampleRate} = event.data;
+  const result: AnalysisResult = {
+    id,
+    analysis: {
+      tempo: estimateTempo(samples, sampleRate),
+      key: estimateKey(samples, sampleRate),
+    },
+  };
+  self.postMessage(result);
+};
@@ -0,0 +1,104 @@
+/// <reference types="vite/client" />
+/**
+ * @fileoverview Sliding-window tempo and key analysis of a live stream,
+ * computed in a worker.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {StreamAnalysis} from './streamAnalysis';
+import type {AnalysisRequest, AnalysisResult} from './streamAnalysisWorker';
+import AnalysisWorker from './streamAnalysisWorker?worker';
+
+/**
+ * Keeps the most recent `windowSeconds` of a stream and has the worker
+ * re-estimate tempo and key every `intervalSeconds` of new audio.
+ * `restart` drops the window, e.g. when the prompts change, but keeps the
+ * last estimate until enough new audio has arrived to replace it.
+ */
+export class StreamAnalyzer {
+  private readonly window: Float32Array;
+  private filled = 0;
+  // Samples pushed since the last reset, which is where the window ends
+  private received = 0;
+  private sinceAnalysis = 0;
+  private result: StreamAnalysis = {tempo: null, key: null};
+  private worker: Worker | null = null;
+  // Request in flight and where its window started; results of older
+  // windows are dropped.
+  private pending: {id: number; start: number} | null = null;
+  private nextId = 0;
+
+  constructor(
+    private readonly sampleRate: number,
+    private readonly onAnalysis: (analysis: StreamAnalysis) => void,
+    windowSeconds = 12,
+    private readonly minSeconds = 6,
+    private readonly intervalSeconds = 2,
+  ) {
+    this.window = new Float32Array(Math.round(windowSeconds * sampleRate));
+  }
+
+  /** The tempo phase counts from the start of the stream, not the window. */
+  get analysis(): StreamAnalysis {
+    return this.result;
+  }
+
+  /**
+   * Adds samples and sends the window off when it is due. While the worker
+   * is still busy the window just keeps sliding.
+   */
+  push(samples: Float32Array) {
+    const incoming = samples.subarray(Math.max(0, samples.length - this.window.length));
+    const keep = Math.min(this.filled, this.window.length - incoming.length);
+    this.window.copyWithin(0, this.filled - keep, this.filled);
+    this.window.set(incoming, keep);
+    this.filled = keep + incoming.length;
+    this.received += samples.length;
+    this.sinceAnalysis += samples.length;
+    if (
+      this.pending !== null ||
+      this.filled < this.minSeconds * this.sampleRate ||
+      this.sinceAnalysis < this.intervalSeconds * this.sampleRate
+    ) {
+      return;
+    }
+    this.sinceAnalysis = 0;
+    const request: AnalysisRequest = {
+      id: ++this.nextId,
+      samples: this.window.slice(0, this.filled),
+      sampleRate: this.sampleRate,
+    };
+    this.pending = {id: request.id, start: (this.received - this.filled) / this.sampleRate};
+    this.ensureWorker().postMessage(request, [request.samples.buffer]);
+  }
+
+  restart() {
+    this.filled = 0;
+    this.sinceAnalysis = 0;
+    this.pending = null;
+  }
+
+  /** Forgets the estimate and the stream position, and stops the worker. */
+  reset() {
+    this.restart();
+    this.received = 0;
+    this.result = {tempo: null, key: null};
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private ensureWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new AnalysisWorker();
+      this.worker.onmessage = (event: MessageEvent<AnalysisResult>) => {
+        if (event.data.id !== this.pending?.id) return;
+        const {tempo, key} = event.data.analysis;
+        this.result = {tempo: tempo && {...tempo, phase: tempo.phase + this.pending.start}, key};
+        this.pending = null;
+        this.onAnalysis(this.result);
+      };
+    }
+    return this.worker;
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * @fileoverview Non-destructive take edits: trim, fades and normalization,
+ * applied to a copy of the decoded audio.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {DeckId} from './deck';
+import {fromDecibels, integratedLoudness, samplePeak} from './loudness';
+import type {RecordedAudio} from './pcmRecorder';
+import type {PromptChange, TakeMetadata} from './takeMetadata';
+
+export type FadeCurve = 'linear' | 'exponential' | 'equal-power';
+export const FADE_CURVES: FadeCurve[] = ['linear', 'exponential', 'equal-power'];
+
+export type NormalizeMode = 'off' | 'peak' | 'loudness';
+
+export interface TakeEdit {
+  /** Trim points in seconds of the original take. */
+  start: number;
+  end: number;
+  /** Fade lengths in seconds. */
+  fadeIn: number;
+  fadeOut: number;
+  fadeInCurve: FadeCurve;
+  fadeOutCurve: FadeCurve;
+  normalize: NormalizeMode;
+  /** Target sample peak in dBFS for peak normalization. */
+  peakTarget: number;
+  /** Target integrated loudness in LUFS for loudness normalization. */
+  loudnessTarget: number;
+}
+
+/** Loudness normalization never raises the peak above this, in dBFS. */
+export const LOUDNESS_PEAK_CEILING = -1;
+
+export function defaultEdit(duration: number): TakeEdit {
+  return {
+    start: 0,
+    end: duration,
+    fadeIn: 0,
+    fadeOut: 0,
+    fadeInCurve: 'linear',
+    fadeOutCurve: 'linear',
+    normalize: 'off',
+    peakTarget: -1,
+    loudnessTarget: -14,
+  };
+}
+
+/** Gain of a fade-in at `x` in [0, 1]; fade-outs mirror it in time. */
+export function fadeGain(curve: FadeCurve, x: number): number {
+  const t = Math.max(0, Math.min(1, x));
+  switch (curve) {
+    case 'linear':
+      return t;
+    case 'exponential':
+      // About 60 dB of range, reaching exactly 0 and 1 at the ends.
+      return t === 0 ? 0 : (Math.pow(1000, t) - 1) / 999;
+    case 'equal-power':
+      return Math.sin((t * Math.PI) / 2);
+  }
+}
+
+/** Clamps trim points and fades to the take and to each other. */
+export function clampEdit(edit: TakeEdit, duration: number): TakeEdit {
+  const start = Math.max(0, Math.min(edit.start, duration));
+  const end = Math.max(start, Math.min(edit.end, duration));
+  const length = end - start;
+  const fadeIn = Math.max(0, Math.min(edit.fadeIn, length));
+  const fadeOut = Math.max(0, Math.min(edit.fadeOut, length - fadeIn));
+  return {...edit, start, end, fadeIn, fadeOut};
+}
+
+/** The normalization gain an edit applies to the trimmed audio. */
+export function normalizationGain(channels: Float32Array[], sampleRate: number, edit: TakeEdit): number {
+  const peak = samplePeak(channels);
+  if (edit.normalize === 'off' || peak === 0) return 1;
+  if (edit.normalize === 'peak') {
+    return fromDecibels(edit.peakTarget) / peak;
+  }
+  const loudness = integratedLoudness(channels, sampleRate);
+  const gain = fromDecibels(edit.loudnessTarget - loudness);
+  return Math.min(gain, fromDecibels(LOUDNESS_PEAK_CEILING) / peak);
+}
+
+/** Renders an edit into new buffers; the original audio is left untouched. */
+export function applyEdit(audio: RecordedAudio, edit: TakeEdit): RecordedAudio {
+  const {sampleRate} = audio;
+  const duration = (audio.channels[0]?.length ?? 0) / sampleRate;
+  const {start, end, fadeIn, fadeOut, fadeInCurve, fadeOutCurve} = clampEdit(edit, duration);
+  const from = Math.round(start * sampleRate);
+  const to = Math.round(end * sampleRate);
+  const channels = audio.channels.map((c) => c.slice(from, to));
+  const gain = normalizationGain(channels, sampleRate, edit);
+  const length = to - from;
+  const fadeInFrames = Math.round(fadeIn * sampleRate);
+  const fadeOutFrames = Math.round(fadeOut * sampleRate);
+  for (const channel of channels) {
+    for (let i = 0; i < length; i++) {
+      let g = gain;
+      if (i < fadeInFrames) {
+        g *= fadeGain(fadeInCurve, i / fadeInFrames);
+      }
+      const fromEnd = length - 1 - i;
+      if (fromEnd < fadeOutFrames) {
+        g *= fadeGain(fadeOutCurve, fromEnd / fadeOutFrames);
+      }
+      channel[i] *= g;
+    }
+  }
+  return {sampleRate, channels};
+}
+
+/** Moves prompt changes onto the trimmed timeline. */
+export function editMetadata(metadata: TakeMetadata, edit: TakeEdit, title: string): TakeMetadata {
+  const {start, end} = clampEdit(edit, metadata.duration);
+  // The prompts in effect at the in point start the edited timeline.
+  const atStart = new Map<DeckId, PromptChange>();
+  const later: PromptChange[] = [];
+  for (const change of metadata.changes) {
+    if (change.time <= start) {
+      atStart.set(change.deckId, {...change, time: 0});
+    } else if (change.time < end) {
+      later.push({...change, time: change.time - start});
+    }
+  }
+  const initial = [...atStart.values()];
+  return {
+    ...metadata,
+    title,
+    duration: end - start,
+    prompts: Object.fromEntries(initial.map((c) => [c.deckId, c.prompts])),
+    changes: [...initial, ...later],
+  };
+}
@@ -0,0 +1,543 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {css, html, LitElement, type PropertyValues, svg} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+import {map} from 'lit/directives/map.js';
+import {styleMap} from 'lit/directives/style-map.js';
+
+import {toDecibels} from './loudness';
+import type {RecordedAudio} from './pcmRecorder';
+import {
+  applyEdit,
+  clampEdit,
+  defaultEdit,
+  FADE_CURVES,
+  type FadeCurve,
+  fadeGain,
+  type NormalizeMode,
+  normalizationGain,
+  type TakeEdit,
+} from './takeEdit';
+import type {TakeMetadata} from './takeMetadata';
+import {
+  DEFAULT_SPLIT_SETTINGS,
+  findSplitPoints,
+  SPLIT_MODES,
+  type SplitMode,
+  type SplitSettings,
+} from './takeSplit';
+
+const WAVEFORM_COLUMNS = 500;
+const ENVELOPE_RESOLUTION = 200;
+
+type Handle = 'start' | 'end';
+type PreviewSource = 'original' | 'edited';
+
+/** Split request fired by the editor; `points` are on the original timeline. */
+export interface SplitTakeDetail {
+  edit: TakeEdit;
+  points: number[];
+}
+
+/** Largest absolute sample per column, across channels. */
+function waveformPeaks(audio: RecordedAudio, columns: number): Float32Array {
+  const length = audio.channels[0]?.length ?? 0;
+  const peaks = new Float32Array(columns);
+  const perColumn = Math.max(1, Math.floor(length / columns));
+  for (let col = 0; col < columns; col++) {
+    const from = Math.floor((col / columns) * length);
+    const to = Math.min(length, from + perColumn);
+    let peak = 0;
+    for (const channel of audio.channels) {
+      for (let i = from; i < to; i++) {
+        peak = Math.max(peak, Math.abs(channel[i]));
+      }
+    }
+    peaks[col] = Math.min(1, peak);
+  }
+  return peaks;
+}
+
+// TakeEditor component
+// -----------------------------------------------------------------------------
+/**
+ * Waveform editor for a take. Drag the handles to trim; fades and
+ * normalization are set below the waveform. Nothing is changed until the
+ * host receives `apply-edit` with the edit, or `split-take` to export the
+ * trimmed range as separate tracks; `close-editor` cancels.
+ */
+@customElement('take-editor')
+export class TakeEditor extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      color: #e0e0e0;
+      font-size: 14px;
+    }
+    .header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      margin-bottom: 8px;
+    }
+    .waveform {
+      position: relative;
+      height: 120px;
+      background-color: #0006;
+      border-radius: 6px;
+      touch-action: none;
+      user-select: none;
+    }
+    svg {
+      width: 100%;
+      height: 100%;
+      display: block;
+    }
+    .trimmed {
+      position: absolute;
+      top: 0;
+      bottom: 0;
+      background-color: #000a;
+      pointer-events: none;
+    }
+    .handle {
+      position: absolute;
+      top: 0;
+      bottom: 0;
+      width: 10px;
+      margin-left: -5px;
+      cursor: ew-resize;
+    }
+    .handle::after {
+      content: '';
+      position: absolute;
+      top: 0;
+      bottom: 0;
+      left: 4px;
+      width: 2px;
+      background-color: #ffdd28;
+    }
+    .split {
+      position: absolute;
+      top: 0;
+      bottom: 0;
+      border-left: 1px dashed #ff25f6;
+      pointer-events: none;
+    }
+    .playhead {
+      position: absolute;
+      top: 0;
+      bottom: 0;
+      width: 1px;
+      background-color: #e0e0e0;
+      pointer-events: none;
+    }
+    .controls {
+      display: flex;
+      gap: 12px;
+      align-items: center;
+      flex-wrap: wrap;
+      margin-top: 10px;
+    }
+    label {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+    }
+    input[type='number'] {
+      width: 64px;
+    }
+    input,
+    select,
+    button {
+      padding: 4px 8px;
+      border: 1px solid #555;
+      border-radius: 6px;
+      background-color: #3a3a3a;
+      color: #e0e0e0;
+    }
+    button {
+      border-radius: 15px;
+      cursor: pointer;
+    }
+    button:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+    .info {
+      color: #aaa;
+      font-size: 12px;
+      font-variant-numeric: tabular-nums;
+    }
+  `;
+
+  @property({attribute: false}) audio: RecordedAudio | null = null;
+  @property({attribute: false}) metadata: TakeMetadata | null = null;
+  @property({type: String}) name = '';
+  /** Set by the host while the edit is being encoded. */
+  @property({type: Boolean}) busy = false;
+
+  @state() private edit: TakeEdit = defaultEdit(0);
+  @state() private previewing: PreviewSource | null = null;
+  @state() private position = 0;
+  @state() private gainDb = 0;
+  @state() private splitSettings: SplitSettings = {...DEFAULT_SPLIT_SETTINGS};
+  @state() private splitPoints: number[] = [];
+
+  private peaks = new Float32Array(0);
+  private dragging: Handle | null = null;
+  private bounds: DOMRect | null = null;
+  private previewContext: AudioContext | null = null;
+  private previewNode: AudioBufferSourceNode | null = null;
+  private previewStartedAt = 0;
+  private previewOffset = 0;
+  private frame = 0;
+
+  private get duration(): number {
+    return this.audio ? (this.audio.channels[0]?.length ?? 0) / this.audio.sampleRate : 0;
+  }
+
+  override willUpdate(changed: PropertyValues<this>) {
+    if (changed.has('audio')) {
+      this.stopPreview();
+      this.peaks = this.audio ? waveformPeaks(this.audio, WAVEFORM_COLUMNS) : new Float32Array(0);
+      this.edit = defaultEdit(this.duration);
+      this.measureGain();
+    }
+    if (changed.has('audio') || changed.has('metadata')) {
+      this.findSplits();
+    }
+  }
+
+  /** Split points within the trim; level analysis is slow, like measureGain. */
+  private findSplits() {
+    if (!this.audio || !this.metadata) {
+      this.splitPoints = [];
+      return;
+    }
+    this.splitPoints = findSplitPoints(this.audio, this.metadata, this.edit, this.splitSettings);
+  }
+
+  private setSplitSettings(changes: Partial<SplitSettings>) {
+    this.splitSettings = {...this.splitSettings, ...changes};
+    this.findSplits();
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.stopPreview();
+    this.previewContext?.close();
+    this.previewContext = null;
+  }
+
+  private setEdit(changes: Partial<TakeEdit>, analyze = true) {
+    this.edit = clampEdit({...this.edit, ...changes}, this.duration);
+    if (analyze) {
+      this.measureGain();
+      this.findSplits();
+    }
+  }
+
+  /** Updates the normalization readout; too slow to run while dragging. */
+  private measureGain() {
+    if (!this.audio || this.edit.normalize === 'off') {
+      this.gainDb = 0;
+      return;
+    }
+    const {sampleRate, channels} = this.audio;
+    const from = Math.round(this.edit.start * sampleRate);
+    const to = Math.round(this.edit.end * sampleRate);
+    const trimmed = channels.map((c) => c.subarray(from, to));
+    this.gainDb = toDecibels(normalizationGain(trimmed, sampleRate, this.edit));
+  }
+
+  private timeAt(clientX: number): number {
+    const bounds = this.bounds!;
+    const x = Math.max(0, Math.min(1, (clientX - bounds.left) / bounds.width));
+    return parseFloat((x * this.duration).toFixed(3));
+  }
+
+  private handlePointerDown(e: PointerEvent, handle: Handle) {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    this.bounds = (this.renderRoot.querySelector('.waveform') as HTMLElement).getBoundingClientRect();
+    this.dragging = handle;
+    window.addEventListener('pointermove', this.handlePointerMove);
+    window.addEventListener('pointerup', this.handlePointerUp, {once: true});
+  }
+
+  private handlePointerMove = (e: PointerEvent) => {
+    if (!this.dragging) return;
+    const time = this.timeAt(e.clientX);
+    if (this.dragging === 'start') {
+      this.setEdit({start: Math.min(time, this.edit.end)}, false);
+    } else {
+      this.setEdit({end: Math.max(time, this.edit.start)}, false);
+    }
+  };
+
+  private handlePointerUp = () => {
+    window.removeEventListener('pointermove', this.handlePointerMove);
+    this.dragging = null;
+    this.bounds = null;
+    this.measureGain();
+    this.findSplits();
+  };
+
+  private playPreview(source: PreviewSource) {
+    if (!this.audio) return;
+    this.stopPreview();
+    const rendered = source === 'edited' ? applyEdit(this.audio, this.edit) : this.audio;
+    this.previewContext ??= new AudioContext({sampleRate: this.audio.sampleRate});
+    const context = this.previewContext;
+    const length = rendered.channels[0]?.length ?? 0;
+    if (length === 0) return;
+    const buffer = context.createBuffer(rendered.channels.length, length, rendered.sampleRate);
+    rendered.channels.forEach((channel, i) => buffer.copyToChannel(channel, i));
+    const node = context.createBufferSource();
+    node.buffer = buffer;
+    node.connect(context.destination);
+    node.addEventListener('ended', () => {
+      if (this.previewNode === node) this.stopPreview();
+    });
+    node.start();
+    this.previewNode = node;
+    this.previewing = source;
+    this.previewStartedAt = context.currentTime;
+    // Edited audio starts at the in point of the original timeline.
+    this.previewOffset = source === 'edited' ? this.edit.start : 0;
+    const tick = () => {
+      this.position = this.previewOffset + context.currentTime - this.previewStartedAt;
+      this.frame = requestAnimationFrame(tick);
+    };
+    tick();
+  }
+
+  private stopPreview() {
+    cancelAnimationFrame(this.frame);
+    if (this.previewNode) {
+      this.previewNode.stop();
+      this.previewNode.disconnect();
+      this.previewNode = null;
+    }
+    this.previewing = null;
+  }
+
+  private togglePreview(source: PreviewSource) {
+    if (this.previewing === source) {
+      this.stopPreview();
+    } else {
+      this.playPreview(source);
+    }
+  }
+
+  private split() {
+    this.stopPreview();
+    this.dispatchEvent(
+      new CustomEvent<SplitTakeDetail>('split-take', {detail: {edit: this.edit, points: this.splitPoints}}),
+    );
+  }
+
+  private apply() {
+    this.stopPreview();
+    this.dispatchEvent(new CustomEvent<TakeEdit>('apply-edit', {detail: this.edit}));
+  }
+
+  private close() {
+    this.stopPreview();
+    this.dispatchEvent(new CustomEvent('close-editor'));
+  }
+
+  private renderWaveform() {
+    const columns = this.peaks.length;
+    // Bars on a 0-columns by 0-100 viewBox, mirrored around the middle.
+    const top = Array.from(this.peaks, (p, i) => `${i},${50 - p * 50}`);
+    const bottom = Array.from(this.peaks, (p, i) => `${i},${50 + p * 50}`).reverse();
+    // The gain envelope of the fades and normalization, drawn over the range.
+    const {start, end, fadeIn, fadeOut, fadeInCurve, fadeOutCurve} = this.edit;
+    const envelope: string[] = [];
+    const duration = this.duration || 1;
+    for (let i = 0; i <= ENVELOPE_RESOLUTION; i++) {
+      const time = start + ((end - start) * i) / ENVELOPE_RESOLUTION;
+      let gain = 1;
+      if (fadeIn > 0 && time - start < fadeIn) gain *= fadeGain(fadeInCurve, (time - start) / fadeIn);
+      if (fadeOut > 0 && end - time < fadeOut) gain *= fadeGain(fadeOutCurve, (end - time) / fadeOut);
+      envelope.push(`${(time / duration) * columns},${100 - gain * 100}`);
+    }
+    const percent = (time: number) => `${(time / duration) * 100}%`;
+    return html`
+      <div class="waveform">
+        <svg viewBox="0 0 ${columns} 100" preserveAspectRatio="none">
+          ${svg`<polygon points=${[...top, ...bottom].join(' ')} fill="#2af6de88"></polygon>`}
+          ${svg`<polyline
+            points=${envelope.join(' ')}
+            fill="none"
+            stroke="#ffdd28"
+            stroke-width="1.5"
+            vector-effect="non-scaling-stroke"
+          ></polyline>`}
+        </svg>
+        <div class="trimmed" style=${styleMap({left: '0', width: percent(start)})}></div>
+        <div class="trimmed" style=${styleMap({left: percent(end), right: '0'})}></div>
+        <div
+          class="handle"
+          style=${styleMap({left: percent(start)})}
+          title="In ${start.toFixed(2)}s"
+          @pointerdown=${(e: PointerEvent) => this.handlePointerDown(e, 'start')}
+        ></div>
+        <div
+          class="handle"
+          style=${styleMap({left: percent(end)})}
+          title="Out ${end.toFixed(2)}s"
+          @pointerdown=${(e: PointerEvent) => this.handlePointerDown(e, 'end')}
+        ></div>
+        ${map(
+          this.splitPoints,
+          (time) => html`<div class="split" style=${styleMap({left: percent(time)})}></div>`,
+        )}
+        ${this.previewing
+          ? html`<div class="playhead" style=${styleMap({left: percent(this.position)})}></div>`
+          : ''}
+      </div>
+    `;
+  }
+
+  private renderCurveSelect(value: FadeCurve, onChange: (curve: FadeCurve) => void, label: string) {
+    return html`<select
+      @change=${(e: Event) => onChange((e.target as HTMLSelectElement).value as FadeCurve)}
+      aria-label=${label}
+    >
+      ${map(FADE_CURVES, (c) => html`<option value=${c} ?selected=${c === value}>${c}</option>`)}
+    </select>`;
+  }
+
+  private numberInput(value: number, step: number, onChange: (value: number) => void, label: string) {
+    return html`<input
+      type="number"
+      step=${step}
+      .value=${value.toString()}
+      @change=${(e: Event) => {
+        const parsed = parseFloat((e.target as HTMLInputElement).value);
+        if (!Number.isNaN(parsed)) onChange(parsed);
+      }}
+      aria-label=${label}
+    />`;
+  }
+
+  override render() {
+    if (!this.audio) return html``;
+    const {edit, splitSettings: split} = this;
+    return html`
+      <div class="header">
+        <strong>Editing ${this.name}</strong>
+        <span class="info">
+          ${edit.start.toFixed(2)}s – ${edit.end.toFixed(2)}s (${(edit.end - edit.start).toFixed(2)}s)
+        </span>
+      </div>
+      ${this.renderWaveform()}
+      <div class="controls">
+        <label>
+          In
+          ${this.numberInput(edit.start, 0.01, (start) => this.setEdit({start: Math.min(start, edit.end)}), 'In point in seconds')}
+        </label>
+        <label>
+          Out
+          ${this.numberInput(edit.end, 0.01, (end) => this.setEdit({end: Math.max(end, edit.start)}), 'Out point in seconds')}
+        </label>
+        <label>
+          Fade in
+          ${this.numberInput(edit.fadeIn, 0.1, (fadeIn) => this.setEdit({fadeIn}), 'Fade-in length in seconds')}
+          ${this.renderCurveSelect(edit.fadeInCurve, (fadeInCurve) => this.setEdit({fadeInCurve}), 'Fade-in curve')}
+        </label>
+        <label>
+          Fade out
+          ${this.numberInput(edit.fadeOut, 0.1, (fadeOut) => this.setEdit({fadeOut}), 'Fade-out length in seconds')}
+          ${this.renderCurveSelect(edit.fadeOutCurve, (fadeOutCurve) => this.setEdit({fadeOutCurve}), 'Fade-out curve')}
+        </label>
+      </div>
+      <div class="controls">
+        <label>
+          Normalize
+          <select
+            @change=${(e: Event) =>
+              this.setEdit({normalize: (e.target as HTMLSelectElement).value as NormalizeMode})}
+            aria-label="Normalization"
+          >
+            <option value="off" ?selected=${edit.normalize === 'off'}>Off</option>
+            <option value="peak" ?selected=${edit.normalize === 'peak'}>Peak</option>
+            <option value="loudness" ?selected=${edit.normalize === 'loudness'}>Loudness</option>
+          </select>
+        </label>
+        ${edit.normalize === 'peak'
+          ? html`<label>
+              Peak (dBFS)
+              ${this.numberInput(edit.peakTarget, 0.5, (peakTarget) => this.setEdit({peakTarget: Math.min(0, peakTarget)}), 'Peak target in dBFS')}
+            </label>`
+          : ''}
+        ${edit.normalize === 'loudness'
+          ? html`<label>
+              Loudness (LUFS)
+              ${this.numberInput(edit.loudnessTarget, 0.5, (loudnessTarget) => this.setEdit({loudnessTarget}), 'Loudness target in LUFS')}
+            </label>`
+          : ''}
+        ${edit.normalize !== 'off'
+          ? html`<span class="info">Gain ${this.gainDb >= 0 ? '+' : ''}${this.gainDb.toFixed(1)} dB</span>`
+          : ''}
+      </div>
+      <div class="controls">
+        <label>
+          Split at
+          <select
+            @change=${(e: Event) =>
+              this.setSplitSettings({mode: (e.target as HTMLSelectElement).value as SplitMode})}
+            aria-label="Split mode"
+          >
+            ${map(
+              Object.entries(SPLIT_MODES),
+              ([mode, label]) =>
+                html`<option value=${mode} ?selected=${mode === split.mode}>${label}</option>`,
+            )}
+          </select>
+        </label>
+        ${split.mode === 'silence'
+          ? html`<label>
+                Below (dBFS)
+                ${this.numberInput(split.silenceThreshold, 1, (silenceThreshold) => this.setSplitSettings({silenceThreshold}), 'Silence threshold in dBFS')}
+              </label>
+              <label>
+                For (s)
+                ${this.numberInput(split.silenceLength, 0.1, (silenceLength) => this.setSplitSettings({silenceLength: Math.max(0.05, silenceLength)}), 'Silence length in seconds')}
+              </label>`
+          : ''}
+        ${split.mode === 'energy'
+          ? html`<label>
+              Jump (dB)
+              ${this.numberInput(split.energyJump, 1, (energyJump) => this.setSplitSettings({energyJump: Math.max(1, energyJump)}), 'Level change in dB')}
+            </label>`
+          : ''}
+        <label>
+          Min length (s)
+          ${this.numberInput(split.minLength, 1, (minLength) => this.setSplitSettings({minLength: Math.max(1, minLength)}), 'Minimum track length in seconds')}
+        </label>
+        <button @click=${this.split} ?disabled=${this.busy || this.splitPoints.length === 0}>
+          Split into ${this.splitPoints.length + 1} tracks (ZIP)
+        </button>
+      </div>
+      <div class="controls">
+        <button @click=${() => this.togglePreview('original')} ?disabled=${this.busy}>
+          ${this.previewing === 'original' ? 'Stop' : 'Play original'}
+        </button>
+        <button @click=${() => this.togglePreview('edited')} ?disabled=${this.busy}>
+          ${this.previewing === 'edited' ? 'Stop' : 'Play edited'}
+        </button>
+        <button @click=${this.apply} ?disabled=${this.busy || edit.end <= edit.start}>
+          ${this.busy ? 'Exporting...' : 'Save as new take'}
+        </button>
+        <button @click=${this.close} ?disabled=${this.busy}>Close</button>
+      </div>
+    `;
+  }
+}
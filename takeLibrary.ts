@@ -0,0 +1,281 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {css, html, LitElement, type PropertyValues} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+import {map} from 'lit/directives/map.js';
+
+import {EXPORT_FORMATS} from './audioExport';
+import {describePrompts, serializeTakeSidecar} from './takeMetadata';
+import {
+  formatDuration,
+  formatSize,
+  type Take,
+  takeFileName,
+  takeSidecarName,
+  zipTakes,
+} from './takes';
+
+/** Rename request fired by the library. */
+export interface RenameTakeDetail {
+  takeId: string;
+  name: string;
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// TakeLibrary component
+// -----------------------------------------------------------------------------
+/**
+ * Lists recorded takes with preview playback, inline renaming and single or
+ * bulk download. The takes belong to the host, which handles the
+ * `rename-take`, `edit-take` and `delete-takes` events.
+ */
+@customElement('take-library')
+export class TakeLibrary extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      color: #e0e0e0;
+      font-size: 14px;
+    }
+    .toolbar {
+      display: flex;
+      gap: 10px;
+      align-items: center;
+      flex-wrap: wrap;
+      margin-bottom: 8px;
+    }
+    button {
+      padding: 4px 10px;
+      border: 1px solid #555;
+      border-radius: 15px;
+      background-color: #3a3a3a;
+      color: #e0e0e0;
+      cursor: pointer;
+    }
+    button:hover:not(:disabled) {
+      background-color: #4a4a4a;
+    }
+    button:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+    .takes {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      max-height: 320px;
+      overflow-y: auto;
+    }
+    .take {
+      display: grid;
+      grid-template-columns: auto 1fr auto;
+      gap: 4px 10px;
+      align-items: center;
+      padding: 8px;
+      border-radius: 6px;
+      background-color: #2a2a2a;
+    }
+    .take input[type='text'] {
+      width: 100%;
+      box-sizing: border-box;
+      padding: 4px 6px;
+      border: 1px solid #555;
+      border-radius: 6px;
+      background-color: #3a3a3a;
+      color: #e0e0e0;
+    }
+    .actions {
+      display: flex;
+      gap: 6px;
+    }
+    .meta,
+    .prompts {
+      grid-column: 2 / 4;
+      color: #aaa;
+      font-size: 12px;
+    }
+    .prompts {
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    audio {
+      grid-column: 1 / 4;
+      width: 100%;
+    }
+    .empty {
+      color: #888;
+    }
+  `;
+
+  @property({attribute: false}) takes: Take[] = [];
+
+  @state() private selected = new Set<string>();
+  @state() private previewId: string | null = null;
+  @state() private zipping = false;
+  private previewUrl: string | null = null;
+
+  override willUpdate(changed: PropertyValues<this>) {
+    if (!changed.has('takes')) return;
+    // Forget selections and previews of takes that were deleted.
+    const ids = new Set(this.takes.map((t) => t.takeId));
+    const selected = [...this.selected].filter((id) => ids.has(id));
+    if (selected.length !== this.selected.size) {
+      this.selected = new Set(selected);
+    }
+    if (this.previewId && !ids.has(this.previewId)) {
+      this.setPreview(null);
+    }
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.setPreview(null);
+  }
+
+  private setPreview(take: Take | null) {
+    if (this.previewUrl) {
+      URL.revokeObjectURL(this.previewUrl);
+    }
+    this.previewUrl = take ? URL.createObjectURL(take.audio) : null;
+    this.previewId = take?.takeId ?? null;
+  }
+
+  private toggleSelected(takeId: string, selected: boolean) {
+    const next = new Set(this.selected);
+    if (selected) {
+      next.add(takeId);
+    } else {
+      next.delete(takeId);
+    }
+    this.selected = next;
+  }
+
+  private toggleAll(selected: boolean) {
+    this.selected = new Set(selected ? this.takes.map((t) => t.takeId) : []);
+  }
+
+  private rename(take: Take, name: string) {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === take.name) return;
+    this.dispatchEvent(
+      new CustomEvent<RenameTakeDetail>('rename-take', {detail: {takeId: take.takeId, name: trimmed}}),
+    );
+  }
+
+  private delete(takeIds: string[]) {
+    this.dispatchEvent(new CustomEvent<string[]>('delete-takes', {detail: takeIds}));
+  }
+
+  private async downloadSelected() {
+    const takes = this.takes.filter((t) => this.selected.has(t.takeId));
+    if (takes.length === 1) {
+      downloadBlob(takes[0].audio, takeFileName(takes[0]));
+      return;
+    }
+    this.zipping = true;
+    try {
+      downloadBlob(await zipTakes(takes), 'auraspirit-takes.zip');
+    } finally {
+      this.zipping = false;
+    }
+  }
+
+  private renderTake(take: Take) {
+    const isPreviewing = this.previewId === take.takeId;
+    return html`
+      <div class="take">
+        <input
+          type="checkbox"
+          .checked=${this.selected.has(take.takeId)}
+          @change=${(e: Event) =>
+            this.toggleSelected(take.takeId, (e.target as HTMLInputElement).checked)}
+          aria-label="Select ${take.name}"
+        />
+        <input
+          type="text"
+          .value=${take.name}
+          @change=${(e: Event) => this.rename(take, (e.target as HTMLInputElement).value)}
+          aria-label="Name of take"
+        />
+        <div class="actions">
+          <button @click=${() => this.setPreview(isPreviewing ? null : take)}>
+            ${isPreviewing ? 'Close' : 'Preview'}
+          </button>
+          <button
+            @click=${() =>
+              this.dispatchEvent(new CustomEvent<string>('edit-take', {detail: take.takeId}))}
+            aria-label="Edit ${take.name}"
+          >
+            Edit
+          </button>
+          <button @click=${() => downloadBlob(take.audio, takeFileName(take))}>Download</button>
+          <button
+            @click=${() =>
+              downloadBlob(
+                serializeTakeSidecar({...take.metadata, title: take.name}),
+                takeSidecarName(take),
+              )}
+            aria-label="Download prompt timeline of ${take.name}"
+          >
+            Timeline
+          </button>
+          <button @click=${() => this.delete([take.takeId])} aria-label="Delete ${take.name}">
+            Delete
+          </button>
+        </div>
+        <div class="meta">
+          ${formatDuration(take.duration)} · ${EXPORT_FORMATS[take.format].label} ·
+          ${formatSize(take.size)} · ${new Date(take.createdAt).toLocaleString()}
+        </div>
+        <div class="prompts" title=${describePrompts(take.metadata.prompts)}>
+          ${describePrompts(take.metadata.prompts)}
+        </div>
+        ${isPreviewing && this.previewUrl
+          ? html`<audio controls autoplay src=${this.previewUrl}></audio>`
+          : ''}
+      </div>
+    `;
+  }
+
+  override render() {
+    const selectedCount = this.selected.size;
+    return html`
+      <div class="toolbar">
+        <label>
+          <input
+            type="checkbox"
+            .checked=${this.takes.length > 0 && selectedCount === this.takes.length}
+            ?disabled=${this.takes.length === 0}
+            @change=${(e: Event) => this.toggleAll((e.target as HTMLInputElement).checked)}
+          />
+          Select all
+        </label>
+        <button
+          @click=${this.downloadSelected}
+          ?disabled=${selectedCount === 0 || this.zipping}
+        >
+          ${this.zipping ? 'Packing...' : `Download selected (${selectedCount})`}
+        </button>
+        <button @click=${() => this.delete([...this.selected])} ?disabled=${selectedCount === 0}>
+          Delete selected
+        </button>
+      </div>
+      <div class="takes">
+        ${this.takes.length === 0 ? html`<div class="empty">No takes recorded yet.</div>` : ''}
+        ${map(this.takes, (take) => this.renderTake(take))}
+      </div>
+    `;
+  }
+}
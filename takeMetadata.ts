@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Prompt history of a recording, written as tags and as a JSON
+ * sidecar.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {DeckId} from './deck';
+import {LIVE_MUSIC_MODEL} from './musicSource';
+import type {WeightedPrompt} from './types';
+
+export const TAKE_SIDECAR_FORMAT = 'auraspirit-take';
+export const TAKE_SIDECAR_VERSION = 1;
+
+/** Prompts a deck sent, `time` seconds after the recording started. */
+export interface PromptChange {
+  time: number;
+  deckId: DeckId;
+  prompts: WeightedPrompt[];
+}
+
+export interface TakeMetadata {
+  title: string;
+  /** ISO 8601 start time of the recording. */
+  date: string;
+  model: string;
+  /** Seconds. */
+  duration: number;
+  /** The prompts each playing deck had when the recording started. */
+  prompts: Partial<Record<DeckId, WeightedPrompt[]>>;
+  changes: PromptChange[];
+}
+
+/**
+ * Collects prompt changes during a recording. Times come from `clock`, in
+ * seconds, so they line up with audio captured on the same context.
+ */
+export class PromptTimeline {
+  readonly startedAt = new Date();
+  private readonly startTime: number;
+  private readonly changes: PromptChange[] = [];
+  private readonly lastSent = new Map<DeckId, string>();
+
+  constructor(
+    private readonly clock: () => number,
+    private readonly initial: Partial<Record<DeckId, WeightedPrompt[]>>,
+  ) {
+    this.startTime = clock();
+    for (const [deckId, prompts] of Object.entries(initial) as [DeckId, WeightedPrompt[]][]) {
+      this.record(deckId, prompts);
+    }
+  }
+
+  /** Records the prompts a deck sent; repeats of the same prompts are ignored. */
+  record(deckId: DeckId, prompts: WeightedPrompt[]) {
+    const key = JSON.stringify(prompts);
+    if (this.lastSent.get(deckId) === key) return;
+    this.lastSent.set(deckId, key);
+    const time = Math.max(0, this.clock() - this.startTime);
+    this.changes.push({time, deckId, prompts: prompts.map(({text, weight}) => ({text, weight}))});
+  }
+
+  finish(duration: number): TakeMetadata {
+    const date = this.startedAt.toISOString();
+    return {
+      title: `AURALSPIRIT take ${date.slice(0, 16).replace('T', ' ')}`,
+      date,
+      model: LIVE_MUSIC_MODEL,
+      duration,
+      prompts: {...this.initial},
+      changes: [...this.changes],
+    };
+  }
+}
+
+/** One line per deck, e.g. "A: ambient pads (0.70), bass (1.20)". */
+export function describePrompts(prompts: Partial<Record<DeckId, WeightedPrompt[]>>): string {
+  return Object.entries(prompts)
+    .map(
+      ([deckId, list]) =>
+        `${deckId}: ${list.map((p) => `${p.text} (${p.weight.toFixed(2)})`).join(', ')}`,
+    )
+    .join('; ');
+}
+
+/**
+ * Tags for ffmpeg's `-metadata`, which writes them as ID3 frames for MP3 and
+ * as Vorbis comments for FLAC and Ogg. Unknown keys become custom fields.
+ */
+export function metadataTags(meta: TakeMetadata): Record<string, string> {
+  const prompts = describePrompts(meta.prompts);
+  return {
+    title: meta.title,
+    date: meta.date.slice(0, 10),
+    comment: `Generated with ${meta.model}. Prompts: ${prompts}`,
+    model: meta.model,
+    prompts,
+  };
+}
+
+/** RIFF INFO fields for natively written WAV files. */
+export function wavInfo(meta: TakeMetadata): Record<string, string> {
+  return {
+    INAM: meta.title,
+    ICRD: meta.date.slice(0, 10),
+    ISFT: `AURALSPIRIT (${meta.model})`,
+    ICMT: `Prompts: ${describePrompts(meta.prompts)}`,
+  };
+}
+
+/** The sidecar file listing every prompt change with its offset. */
+export function serializeTakeSidecar(meta: TakeMetadata): Blob {
+  const data = {
+    format: TAKE_SIDECAR_FORMAT,
+    version: TAKE_SIDECAR_VERSION,
+    ...meta,
+    changes: meta.changes.map((c) => ({...c, time: Math.round(c.time * 1000) / 1000})),
+  };
+  return new Blob([JSON.stringify(data, null, 2)], {type: 'application/json'});
+}
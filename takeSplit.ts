@@ -0,0 +1,225 @@
+/**
+ * @fileoverview Splitting a take into tracks, at prompt changes or where the
+ * audio goes quiet or changes level.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {DeckId} from './deck';
+import {toDecibels} from './loudness';
+import type {RecordedAudio} from './pcmRecorder';
+import type {TakeEdit} from './takeEdit';
+import type {PromptChange, TakeMetadata} from './takeMetadata';
+
+export type SplitMode = 'prompts' | 'silence' | 'energy';
+
+export const SPLIT_MODES: Record<SplitMode, string> = {
+  prompts: 'Prompt changes',
+  silence: 'Silence',
+  energy: 'Energy changes',
+};
+
+export interface SplitSettings {
+  mode: SplitMode;
+  /** Shortest track in seconds; closer boundaries are dropped. */
+  minLength: number;
+  /** Level in dBFS below which audio counts as silence. */
+  silenceThreshold: number;
+  /** Seconds of silence needed for a split. */
+  silenceLength: number;
+  /** Level change in dB between neighbouring windows that counts as a boundary. */
+  energyJump: number;
+}
+
+export const DEFAULT_SPLIT_SETTINGS: SplitSettings = {
+  mode: 'prompts',
+  minLength: 30,
+  silenceThreshold: -45,
+  silenceLength: 1,
+  energyJump: 9,
+};
+
+/** Analysis window for the level envelope, in seconds. */
+const LEVEL_WINDOW = 0.05;
+/** Span on each side of a candidate energy boundary, in seconds. */
+const ENERGY_SPAN = 2;
+
+/** The texts of the prompts with a weight, which is what a listener hears change. */
+function soundingPrompts(change: PromptChange): string {
+  return change.prompts
+    .filter((p) => p.weight > 0)
+    .map((p) => p.text)
+    .sort()
+    .join('\n');
+}
+
+/**
+ * Times where the set of sounding prompts of any deck changes. Weight-only
+ * changes, as from automation or scene morphs, are not boundaries.
+ */
+export function promptBoundaries(metadata: TakeMetadata): number[] {
+  const current = new Map<DeckId, string>();
+  const times: number[] = [];
+  for (const change of metadata.changes) {
+    const sounding = soundingPrompts(change);
+    const previous = current.get(change.deckId);
+    current.set(change.deckId, sounding);
+    if (previous !== undefined && previous !== sounding && change.time > 0) {
+      times.push(change.time);
+    }
+  }
+  return times;
+}
+
+/** RMS level in dBFS of consecutive windows, mixed across channels. */
+function levelEnvelope(audio: RecordedAudio): Float32Array {
+  const window = Math.max(1, Math.round(LEVEL_WINDOW * audio.sampleRate));
+  const length = audio.channels[0]?.length ?? 0;
+  const levels = new Float32Array(Math.floor(length / window));
+  for (let w = 0; w < levels.length; w++) {
+    let sum = 0;
+    for (const channel of audio.channels) {
+      for (let i = w * window; i < (w + 1) * window; i++) {
+        sum += channel[i] * channel[i];
+      }
+    }
+    levels[w] = toDecibels(Math.sqrt(sum / (window * audio.channels.length)));
+  }
+  return levels;
+}
+
+/** The middles of quiet stretches that last at least `silenceLength`. */
+export function silenceBoundaries(audio: RecordedAudio, settings: SplitSettings): number[] {
+  const levels = levelEnvelope(audio);
+  const minWindows = Math.max(1, Math.round(settings.silenceLength / LEVEL_WINDOW));
+  const times: number[] = [];
+  let runStart = -1;
+  for (let w = 0; w <= levels.length; w++) {
+    const quiet = w < levels.length && levels[w] < settings.silenceThreshold;
+    if (quiet && runStart < 0) {
+      runStart = w;
+    } else if (!quiet && runStart >= 0) {
+      // Quiet stretches at the very start or end are not between tracks.
+      if (w - runStart >= minWindows && runStart > 0 && w < levels.length) {
+        times.push(((runStart + w) / 2) * LEVEL_WINDOW);
+      }
+      runStart = -1;
+    }
+  }
+  return times;
+}
+
+/**
+ * Points where the average level over the next seconds differs from the
+ * previous seconds by at least `energyJump` dB, keeping only the strongest
+ * point of each change.
+ */
+export function energyBoundaries(audio: RecordedAudio, settings: SplitSettings): number[] {
+  const levels = levelEnvelope(audio);
+  const span = Math.round(ENERGY_SPAN / LEVEL_WINDOW);
+  // Average in the power domain so silence doesn't swamp the mean.
+  const power = levels.map((db) => Math.pow(10, db / 10));
+  const mean = (from: number, to: number) => {
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += power[i];
+    return 10 * Math.log10(sum / (to - from) || 1e-12);
+  };
+  const jumps = new Float32Array(levels.length);
+  for (let w = span; w + span <= levels.length; w++) {
+    jumps[w] = Math.abs(mean(w, w + span) - mean(w - span, w));
+  }
+  const times: number[] = [];
+  for (let w = span; w + span <= levels.length; w++) {
+    const jump = jumps[w];
+    if (jump < settings.energyJump) continue;
+    let isPeak = true;
+    for (let i = Math.max(0, w - span); i < Math.min(levels.length, w + span); i++) {
+      if (jumps[i] > jump || (jumps[i] === jump && i < w)) {
+        isPeak = false;
+        break;
+      }
+    }
+    if (isPeak) times.push(w * LEVEL_WINDOW);
+  }
+  return times;
+}
+
+/**
+ * Keeps boundaries within `start`..`end` that leave every track at least
+ * `minLength` long, preferring earlier boundaries.
+ */
+export function splitPoints(boundaries: number[], start: number, end: number, minLength: number): number[] {
+  const points: number[] = [];
+  let previous = start;
+  for (const time of [...boundaries].sort((a, b) => a - b)) {
+    if (time - previous >= minLength && end - time >= minLength) {
+      points.push(time);
+      previous = time;
+    }
+  }
+  return points;
+}
+
+/** Split points for the trimmed range of an edit. */
+export function findSplitPoints(
+  audio: RecordedAudio,
+  metadata: TakeMetadata,
+  edit: TakeEdit,
+  settings: SplitSettings,
+): number[] {
+  let boundaries: number[];
+  switch (settings.mode) {
+    case 'prompts':
+      boundaries = promptBoundaries(metadata);
+      break;
+    case 'silence':
+      boundaries = silenceBoundaries(audio, settings);
+      break;
+    case 'energy':
+      boundaries = energyBoundaries(audio, settings);
+      break;
+  }
+  return splitPoints(boundaries, edit.start, edit.end, settings.minLength);
+}
+
+/**
+ * One edit per track. Each keeps the normalization of `edit`; only the
+ * first track fades in and only the last fades out.
+ */
+export function splitEdits(edit: TakeEdit, points: number[]): TakeEdit[] {
+  const bounds = [edit.start, ...points, edit.end];
+  return bounds.slice(1).map((end, i) => ({
+    ...edit,
+    start: bounds[i],
+    end,
+    fadeIn: i === 0 ? edit.fadeIn : 0,
+    fadeOut: i === bounds.length - 2 ? edit.fadeOut : 0,
+  }));
+}
+
+/** The prompt text with the most weight over time across decks, if any. */
+export function dominantPrompt(metadata: TakeMetadata): string | null {
+  const totals = new Map<string, number>();
+  const byDeck = new Map<DeckId, PromptChange[]>();
+  for (const change of metadata.changes) {
+    byDeck.set(change.deckId, [...(byDeck.get(change.deckId) ?? []), change]);
+  }
+  for (const changes of byDeck.values()) {
+    changes.forEach((change, i) => {
+      const until = changes[i + 1]?.time ?? metadata.duration;
+      const length = Math.max(0, until - change.time);
+      for (const {text, weight} of change.prompts) {
+        totals.set(text, (totals.get(text) ?? 0) + weight * length);
+      }
+    });
+  }
+  let best: string | null = null;
+  let bestTotal = 0;
+  for (const [text, total] of totals) {
+    if (total > bestTotal) {
+      best = text;
+      bestTotal = total;
+    }
+  }
+  return best;
+}
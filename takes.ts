@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Finished recordings kept in the local take library.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {EXPORT_FORMATS, type ExportFormat} from './audioExport';
+import type {RecordedAudio} from './pcmRecorder';
+import {serializeTakeSidecar, type TakeMetadata} from './takeMetadata';
+import {createZip, type ZipEntry} from './zip';
+
+export interface Take {
+  readonly takeId: string;
+  name: string;
+  /** Seconds. */
+  duration: number;
+  format: ExportFormat;
+  /** Bytes of encoded audio. */
+  size: number;
+  /** ISO 8601. */
+  createdAt: string;
+  /** Prompts and prompt changes of the recording. */
+  metadata: TakeMetadata;
+  audio: Blob;
+}
+
+let nextTakeId = 0;
+
+export function createTake(audio: Blob, format: ExportFormat, metadata: TakeMetadata): Take {
+  return {
+    // Several takes can be created at once, e.g. the tracks of a recording.
+    takeId: `take-${Date.now()}-${nextTakeId++}`,
+    name: metadata.title,
+    duration: metadata.duration,
+    format,
+    size: audio.size,
+    createdAt: new Date().toISOString(),
+    metadata,
+    audio,
+  };
+}
+
+/** Decodes the audio of a take into planar samples at `sampleRate`. */
+export async function decodeTake(take: Take, sampleRate: number): Promise<RecordedAudio> {
+  const context = new OfflineAudioContext({numberOfChannels: 2, length: 1, sampleRate});
+  const buffer = await context.decodeAudioData(await take.audio.arrayBuffer());
+  const channels = Array.from({length: buffer.numberOfChannels}, (_, i) => buffer.getChannelData(i));
+  return {sampleRate: buffer.sampleRate, channels};
+}
+
+/** A file system friendly version of the take name, without extension. */
+export function takeBaseName(take: Take): string {
+  return take.name.replace(/[\\/:*?"<>|]+/g, '-').trim() || take.takeId;
+}
+
+export function takeFileName(take: Take, baseName = takeBaseName(take)): string {
+  return `${baseName}.${EXPORT_FORMATS[take.format].extension}`;
+}
+
+export function takeSidecarName(take: Take, baseName = takeBaseName(take)): string {
+  return `${baseName}.prompts.json`;
+}
+
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const minutes = Math.floor(total / 60);
+  return `${minutes}:${String(total % 60).padStart(2, '0')}`;
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Packs takes and their prompt sidecars into one ZIP archive. Takes with
+ * the same name get " (2)", " (3)", ... on both files, so each sidecar
+ * still sits next to its audio.
+ */
+export async function zipTakes(takes: Take[]): Promise<Blob> {
+  const entries: ZipEntry[] = [];
+  const usedNames = new Set<string>();
+  for (const take of takes) {
+    let baseName = takeBaseName(take);
+    for (let n = 2; usedNames.has(baseName); n++) {
+      baseName = `${takeBaseName(take)} (${n})`;
+    }
+    usedNames.add(baseName);
+    const modified = new Date(take.createdAt);
+    const sidecar = serializeTakeSidecar({...take.metadata, title: take.name});
+    entries.push(
+      {name: takeFileName(take, baseName), data: new Uint8Array(await take.audio.arrayBuffer()), modified},
+      {name: takeSidecarName(take, baseName), data: new Uint8Array(await sidecar.arrayBuffer()), modified},
+    );
+  }
+  return createZip(entries);
+}
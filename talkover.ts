@@ -0,0 +1,84 @@
+/// <reference types="vite/client" />
+/**
+ * @fileoverview Talkover: a mic routed into the output mix that ducks the
+ * music while someone speaks.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import duckerWorkletUrl from './duckerWorklet?worker&url';
+import {type OpenInput, openDeviceInput} from './inputSource';
+
+export interface DuckingSettings {
+  /** Mic level in dBFS above which the music ducks. */
+  threshold: number;
+  /** How far the music is lowered, in dB. */
+  depth: number;
+  /** Milliseconds to duck once speech starts. */
+  attack: number;
+  /** Milliseconds to come back once speech stops. */
+  release: number;
+}
+
+export const DEFAULT_DUCKING: DuckingSettings = {
+  threshold: -40,
+  depth: 12,
+  attack: 20,
+  release: 400,
+};
+
+const contextsWithModule = new WeakSet<BaseAudioContext>();
+
+/**
+ * Opens a mic on the output context, mixes it into `mix` and drives the gain
+ * of `duck` from its level. The duck node must sit between the music and
+ * `mix`; its gain is handed back to 1 on stop.
+ */
+export class Talkover {
+  private constructor(
+    private readonly input: OpenInput,
+    private readonly ducker: AudioWorkletNode,
+    private readonly duck: GainNode,
+  ) {}
+
+  static async start(
+    context: AudioContext,
+    deviceId: string,
+    duck: GainNode,
+    mix: AudioNode,
+    settings: DuckingSettings,
+  ): Promise<Talkover> {
+    if (!contextsWithModule.has(context)) {
+      await context.audioWorklet.addModule(duckerWorkletUrl);
+      contextsWithModule.add(context);
+    }
+    const input = await openDeviceInput(context, deviceId);
+    const ducker = new AudioWorkletNode(context, 'ducker-processor', {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      outputChannelCount: [1],
+    });
+    input.node.connect(ducker);
+    input.node.connect(mix);
+    // The ducker's output is added to the gain's own value, so zero it.
+    duck.gain.value = 0;
+    ducker.connect(duck.gain);
+    const talkover = new Talkover(input, ducker, duck);
+    talkover.setDucking(settings);
+    return talkover;
+  }
+
+  setDucking(settings: DuckingSettings) {
+    const param = (name: string) => this.ducker.parameters.get(name)!;
+    param('threshold').value = settings.threshold;
+    param('depth').value = settings.depth;
+    param('attack').value = settings.attack / 1000;
+    param('release').value = settings.release / 1000;
+  }
+
+  stop() {
+    this.input.close();
+    this.ducker.disconnect();
+    this.duck.gain.value = 1;
+  }
+}
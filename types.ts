@@ -0,0 +1,22 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface Prompt {
+  readonly promptId: string;
+  readonly color: string;
+  text: string;
+  weight: number;
+}
+
+// Defining WeightedPrompt interface based on expected structure
+export interface WeightedPrompt {
+  text: string;
+  weight: number;
+}
+
+// Fix: Redefined LiveMusicGenerationConfig to match the expected object structure for `musicGenerationConfig` in Live API config.
+export interface LiveMusicGenerationConfig {
+  weightedPrompts: WeightedPrompt[];
+}
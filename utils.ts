@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 import {Blob} from '@google/genai';
+import {floatToInt16} from './pcm';
 
 // Fix: Add type annotation for bytes parameter.
 function encode(bytes: Uint8Array) {
@@ -27,12 +28,8 @@ function decode(base64: string): Uint8Array {
 }
 
 function createBlob(data: Float32Array): Blob {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    // convert float32 -1 to 1 to int16 -32768 to 32767
-    int16[i] = data[i] * 32768;
-  }
+  // convert float32 -1 to 1 to int16 -32768 to 32767, clipping overs
+  const int16 = floatToInt16(data);
 
   return {
     data: encode(new Uint8Array(int16.buffer)),
@@ -59,4 +56,32 @@ async function decodeAudioData(
   return buffer;
 }
 
-export {createBlob, decode, decodeAudioData, encode};
\ No newline at end of file
+/**
+ * Throttles a callback to be called at most once per `delay` milliseconds. A
+ * call that lands inside the window is deferred to its end, so the latest
+ * arguments are never lost.
+ */
+function throttle(func: (...args: unknown[]) => void, delay: number) {
+  let lastCall = 0;
+  let trailing: ReturnType<typeof setTimeout> | null = null;
+  return (...args: unknown[]) => {
+    const now = Date.now();
+    const timeSinceLastCall = now - lastCall;
+    if (trailing !== null) {
+      clearTimeout(trailing);
+      trailing = null;
+    }
+    if (timeSinceLastCall >= delay) {
+      func(...args);
+      lastCall = now;
+    } else {
+      trailing = setTimeout(() => {
+        trailing = null;
+        lastCall = Date.now();
+        func(...args);
+      }, delay - timeSinceLastCall);
+    }
+  };
+}
+
+export {createBlob, decode, decodeAudioData, encode, throttle};
\ No newline at end of file
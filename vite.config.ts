@@ -10,6 +10,11 @@ export default defineConfig(({ mode }) => {
         host: '0.0.0.0',
       },
       plugins: [],
+      optimizeDeps: {
+        // ffmpeg.wasm spawns its worker from a relative URL, which
+        // pre-bundling would break.
+        exclude: ['@ffmpeg/ffmpeg', '@ffmpeg/util'],
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
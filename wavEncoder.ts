@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Dependency-free WAV (RIFF) encoder for planar float PCM.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type WavSampleFormat = 'pcm16' | 'pcm24' | 'float32';
+
+export const WAV_SAMPLE_FORMATS: WavSampleFormat[] = ['pcm16', 'pcm24', 'float32'];
+
+const BYTES_PER_SAMPLE: Record<WavSampleFormat, number> = {
+  pcm16: 2,
+  pcm24: 3,
+  float32: 4,
+};
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+
+function writeAscii(view: DataView, offset: number, text: string) {
+  for (let i = 0; i < text.length; i++) {
+    view.setUint8(offset + i, text.charCodeAt(i));
+  }
+}
+
+/**
+ * Builds a `LIST`/`INFO` chunk from four-character field ids, such as INAM
+ * for the title. Values are NUL-terminated UTF-8, padded to even length.
+ */
+function encodeInfoChunk(info: Record<string, string>): Uint8Array {
+  const encoder = new TextEncoder();
+  const fields = Object.entries(info)
+    .filter(([id, value]) => id.length === 4 && value)
+    .map(([id, value]) => ({id, bytes: encoder.encode(value)}));
+  if (fields.length === 0) return new Uint8Array(0);
+  const fieldSize = (length: number) => 8 + length + 1 + ((length + 1) % 2);
+  const size = 12 + fields.reduce((sum, f) => sum + fieldSize(f.bytes.length), 0);
+  const chunk = new Uint8Array(size);
+  const view = new DataView(chunk.buffer);
+  writeAscii(view, 0, 'LIST');
+  view.setUint32(4, size - 8, true);
+  writeAscii(view, 8, 'INFO');
+  let offset = 12;
+  for (const {id, bytes} of fields) {
+    writeAscii(view, offset, id);
+    view.setUint32(offset + 4, bytes.length + 1, true);
+    chunk.set(bytes, offset + 8);
+    offset += fieldSize(bytes.length);
+  }
+  return chunk;
+}
+
+/**
+ * Encodes planar float samples in [-1, 1] as an interleaved WAV file. Integer
+ * formats clip out-of-range samples; float keeps them as they are. `info`
+ * adds RIFF INFO tags.
+ */
+export function encodeWav(
+  channels: Float32Array[],
+  sampleRate: number,
+  format: WavSampleFormat = 'pcm16',
+  info: Record<string, string> = {},
+): Uint8Array {
+  const channelCount = channels.length;
+  const frames = channels[0]?.length ?? 0;
+  const bytesPerSample = BYTES_PER_SAMPLE[format];
+  const blockAlign = channelCount * bytesPerSample;
+  const dataSize = frames * blockAlign;
+  const isFloat = format === 'float32';
+  // Float files carry a `fact` chunk and an extended `fmt ` chunk.
+  const fmtSize = isFloat ? 18 : 16;
+  const factSize = isFloat ? 12 : 0;
+  const infoChunk = encodeInfoChunk(info);
+  const headerSize = 12 + 8 + fmtSize + factSize + infoChunk.length + 8;
+  const bytes = new Uint8Array(headerSize + dataSize);
+  const view = new DataView(bytes.buffer);
+
+  writeAscii(view, 0, 'RIFF');
+  view.setUint32(4, bytes.length - 8, true);
+  writeAscii(view, 8, 'WAVE');
+
+  let offset = 12;
+  writeAscii(view, offset, 'fmt ');
+  view.setUint32(offset + 4, fmtSize, true);
+  view.setUint16(offset + 8, isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, true);
+  view.setUint16(offset + 10, channelCount, true);
+  view.setUint32(offset + 12, sampleRate, true);
+  view.setUint32(offset + 16, sampleRate * blockAlign, true);
+  view.setUint16(offset + 20, blockAlign, true);
+  view.setUint16(offset + 22, bytesPerSample * 8, true);
+  if (isFloat) {
+    view.setUint16(offset + 24, 0, true); // No extension bytes.
+  }
+  offset += 8 + fmtSize;
+
+  if (isFloat) {
+    writeAscii(view, offset, 'fact');
+    view.setUint32(offset + 4, 4, true);
+    view.setUint32(offset + 8, frames, true);
+    offset += factSize;
+  }
+
+  bytes.set(infoChunk, offset);
+  offset += infoChunk.length;
+
+  writeAscii(view, offset, 'data');
+  view.setUint32(offset + 4, dataSize, true);
+  offset += 8;
+
+  for (let frame = 0; frame < frames; frame++) {
+    for (let c = 0; c < channelCount; c++) {
+      const sample = channels[c][frame];
+      if (isFloat) {
+        view.setFloat32(offset, sample, true);
+      } else {
+        const clipped = Math.max(-1, Math.min(1, sample));
+        if (format === 'pcm16') {
+          view.setInt16(offset, clipped < 0 ? clipped * 0x8000 : clipped * 0x7fff, true);
+        } else {
+          const value = Math.round(clipped < 0 ? clipped * 0x800000 : clipped * 0x7fffff);
+          view.setUint8(offset, value & 0xff);
+          view.setUint8(offset + 1, (value >> 8) & 0xff);
+          view.setUint8(offset + 2, (value >> 16) & 0xff);
+        }
+      }
+      offset += bytesPerSample;
+    }
+  }
+  return bytes;
+}